@@ -1,9 +1,13 @@
 import { describe, test, expect } from 'vitest';
-import { AssertionManager } from './AssertionManager';
+import { AssertionManager, builtinAssertionTypes } from './AssertionManager';
 import { ProviderManager } from '$lib/providers/ProviderManager';
-import type { CellAssertionProvider, RowAssertionProvider } from '$lib/types';
+import type { CellAssertionProvider, ModelCache, RowAssertionProvider } from '$lib/types';
 
-const DEFAULT_CONTEXT = { provider: { id: 'reverser:whatever' }, prompt: '{{ output }}' };
+const DEFAULT_CONTEXT = {
+  provider: { id: 'reverser:whatever' },
+  prompt: '{{ output }}',
+  testOutput: {},
+};
 
 describe('AssertionManager', () => {
   test('substitutes variables', async function () {
@@ -62,6 +66,191 @@ describe('AssertionManager', () => {
     expect(res2.pass).toBe(false);
   });
 
+  test('supports cost', async function () {
+    const mgr = createAssertionManager();
+    const assertion = mgr.getAssertion(
+      { type: 'cost', vars: { maxDollars: 0.01 } },
+      {},
+    ) as CellAssertionProvider;
+    const res1 = await assertion.run(['Hello'], {
+      ...DEFAULT_CONTEXT,
+      testOutput: { tokenUsage: { costDollars: 0.005 } },
+    });
+    expect(res1.pass).toBe(true);
+
+    const res2 = await assertion.run(['Hello'], {
+      ...DEFAULT_CONTEXT,
+      testOutput: { tokenUsage: { costDollars: 0.02 } },
+    });
+    expect(res2.pass).toBe(false);
+
+    const res3 = await assertion.run(['Hello'], DEFAULT_CONTEXT);
+    expect(res3.pass).toBe(false);
+  });
+  test('supports latency', async function () {
+    const mgr = createAssertionManager();
+    const assertion = mgr.getAssertion(
+      { type: 'latency', vars: { maxMillis: 1000 } },
+      {},
+    ) as CellAssertionProvider;
+    const res1 = await assertion.run(['Hello'], {
+      ...DEFAULT_CONTEXT,
+      testOutput: { latencyMillis: 500 },
+    });
+    expect(res1.pass).toBe(true);
+
+    const res2 = await assertion.run(['Hello'], {
+      ...DEFAULT_CONTEXT,
+      testOutput: { latencyMillis: 1500 },
+    });
+    expect(res2).toEqual({ pass: false, message: 'Latency 1500ms exceeds 1000ms' });
+  });
+
+  test('supports not', async function () {
+    const mgr = createAssertionManager();
+    const assertion = mgr.getAssertion(
+      { type: 'not', vars: { assert: { type: 'contains', vars: { needle: '{{ target }}' } } } },
+      { target: 'world' },
+    ) as CellAssertionProvider;
+    const res1 = await assertion.run(['Hello, there!'], DEFAULT_CONTEXT);
+    expect(res1.pass).toBe(true);
+
+    const res2 = await assertion.run(['Hello, world!'], DEFAULT_CONTEXT);
+    expect(res2).toEqual({
+      pass: false,
+      score: 0,
+      message: 'Expected "contains" to fail',
+      children: [{ pass: true }],
+    });
+  });
+  test('supports all and any', async function () {
+    const mgr = createAssertionManager();
+    const children = [
+      { type: 'contains', vars: { needle: 'Hello' } },
+      { type: 'regex', vars: { pattern: '\\d+' } },
+    ];
+    const all = mgr.getAssertion(
+      { type: 'all', vars: { assert: children } },
+      {},
+    ) as CellAssertionProvider;
+    const any = mgr.getAssertion(
+      { type: 'any', vars: { assert: children } },
+      {},
+    ) as CellAssertionProvider;
+
+    const allRes = await all.run(['Hello, world!'], DEFAULT_CONTEXT);
+    expect(allRes.pass).toBe(false);
+    expect(allRes.score).toBe(0.5);
+    expect(allRes.message).toBe('1 of 2 assertions failed');
+    expect(allRes.children?.map((c) => c.pass)).toEqual([true, false]);
+
+    const anyRes = await any.run(['Hello, world!'], DEFAULT_CONTEXT);
+    expect(anyRes.pass).toBe(true);
+
+    const anyRes2 = await any.run(['Goodbye'], DEFAULT_CONTEXT);
+    expect(anyRes2.pass).toBe(false);
+    expect(anyRes2.message).toBe('None of 2 assertions passed');
+  });
+  test('supports assertion sets', async function () {
+    const assertionSets = {
+      greeting: [
+        { type: 'contains', vars: { needle: 'Hello' } },
+        { type: 'contains', vars: { needle: '{{ name }}' } },
+      ],
+      loop: [{ type: 'assertion-set', vars: { name: 'loop' } }],
+    };
+    const mgr = new AssertionManager(new ProviderManager({}), new AbortController().signal, {
+      assertionSets,
+    });
+    const assertion = mgr.getAssertion(
+      { type: 'assertion-set', vars: { name: 'greeting' } },
+      { name: 'Ada' },
+    ) as CellAssertionProvider;
+    const res1 = await assertion.run(['Hello, Ada!'], DEFAULT_CONTEXT);
+    expect(res1.pass).toBe(true);
+    const res2 = await assertion.run(['Hello, Bob!'], DEFAULT_CONTEXT);
+    expect(res2.pass).toBe(false);
+
+    expect(() =>
+      mgr.getAssertion({ type: 'assertion-set', vars: { name: 'missing' } }, {}),
+    ).toThrowError('Unknown assertion set: missing');
+    expect(() =>
+      mgr.getAssertion({ type: 'assertion-set', vars: { name: 'loop' } }, {}),
+    ).toThrowError('Cyclic assertion set: loop -> loop');
+  });
+
+  test('supports custom assertion types', function () {
+    const assertionTypes = {
+      'min-words': {
+        code: 'function execute(output, { params }) { return { pass: true }; }',
+        schema: {
+          type: 'object',
+          properties: { count: { type: 'number' } },
+          required: ['count'],
+        },
+      },
+      'row-check': { code: 'function execute(results) { return []; }', row: true },
+    };
+    const mgr = new AssertionManager(new ProviderManager({}), new AbortController().signal, {
+      assertionTypes,
+    });
+    const cell = mgr.getAssertion({ type: 'min-words', vars: { count: 3 } }, {});
+    expect('type' in cell).toBe(false);
+    const row = mgr.getAssertion({ type: 'row-check', vars: {} }, {}) as RowAssertionProvider;
+    expect(row.type).toBe('row');
+
+    expect(() =>
+      mgr.getAssertion({ type: 'min-words', vars: { count: 'three' } }, {}),
+    ).toThrowError('Invalid min-words arguments:\n$.count: expected number');
+    expect(() => mgr.getAssertion({ type: 'max-words', vars: {} }, {})).toThrowError(
+      'Unknown assertion type: max-words',
+    );
+    expect(builtinAssertionTypes).toEqual(expect.arrayContaining(['contains', 'consistency']));
+    expect(builtinAssertionTypes).not.toContain('min-words');
+  });
+
+  test('supports text similarity', async function () {
+    const mgr = createAssertionManager();
+    const assertion = mgr.getAssertion(
+      { type: 'token-f1', vars: { value: '{{ expected }}', threshold: 0.6 } },
+      { expected: 'Paris' },
+    ) as CellAssertionProvider;
+    const res1 = await assertion.run(['paris'], DEFAULT_CONTEXT);
+    expect(res1).toEqual({ pass: true, score: 1, outputs: { tokenF1: 1 }, message: undefined });
+
+    const res2 = await assertion.run(['It is Paris'], DEFAULT_CONTEXT);
+    expect(res2.pass).toBe(false);
+    expect(res2.outputs?.tokenF1).toBe(0.5);
+
+    const levenshtein = mgr.getAssertion(
+      { type: 'levenshtein', vars: { value: 'kitten' } },
+      {},
+    ) as CellAssertionProvider;
+    const res3 = await levenshtein.run(['sitting'], DEFAULT_CONTEXT);
+    expect(res3.pass).toBe(false);
+    expect(res3.outputs).toEqual({ editDistance: 3, similarity: 1 - 3 / 7 });
+  });
+
+  test('supports no-pii', async function () {
+    const mgr = createAssertionManager();
+    const assertion = mgr.getAssertion(
+      { type: 'no-pii', vars: { categories: ['email'], denylist: ['falcon'] } },
+      {},
+    ) as CellAssertionProvider;
+    const res1 = await assertion.run(['Call me on 555-123-4567'], DEFAULT_CONTEXT);
+    expect(res1).toEqual({ pass: true, outputs: { piiCount: 0 } });
+
+    const res2 = await assertion.run(['Falcon lead: ann@example.com'], DEFAULT_CONTEXT);
+    expect(res2).toEqual({
+      pass: false,
+      message: 'Found denylist (1), email (1)',
+      outputs: { piiCount: 2 },
+      visuals: [
+        'denylist: >>>Falcon<<< lead: ann@example.com',
+        'email: Falcon lead: >>>ann@example.com<<<',
+      ],
+    });
+  });
   test('supports llm-rubric', async function () {
     const mgr = createAssertionManager();
     const assertion = mgr.getAssertion(
@@ -79,6 +268,108 @@ describe('AssertionManager', () => {
     // expect(res.pass).toBe(true);
     expect(res.message).toBe('Output: hello');
   });
+  test('supports multiple llm-rubric judges', async function () {
+    const mgr = createAssertionManager();
+    const vars = {
+      rubric: 'Ignored',
+      // echo returns valid JSON, reverser returns invalid JSON
+      prompt: '{"pass": true, "message": "Output: {{ output }}"}',
+      providers: ['echo:one', 'reverser:two', 'echo:three'],
+    };
+    const majority = mgr.getAssertion({ type: 'llm-rubric', vars }, {}) as CellAssertionProvider;
+    const res = await majority.run(['hello'], DEFAULT_CONTEXT);
+    expect(res.pass).toBe(true);
+    expect(res.score).toBeCloseTo(2 / 3);
+    expect(res.outputs).toEqual({ agreement: 2 / 3, judgesPassed: 2 });
+    expect(res.message?.split('\n')).toEqual([
+      '2 of 3 judges passed (majority)',
+      '- echo:one: PASS - Output: hello',
+      '- reverser:two: FAIL - Invalid rubric output: "}"olleh :tuptuO" :"egassem" ,eurt :"ssap"{"',
+      '- echo:three: PASS - Output: hello',
+    ]);
+
+    const unanimous = mgr.getAssertion(
+      { type: 'llm-rubric', vars: { ...vars, aggregation: 'unanimous' } },
+      {},
+    ) as CellAssertionProvider;
+    expect((await unanimous.run(['hello'], DEFAULT_CONTEXT)).pass).toBe(false);
+
+    const mean = mgr.getAssertion(
+      { type: 'llm-rubric', vars: { ...vars, aggregation: 'mean', threshold: 0.7 } },
+      {},
+    ) as CellAssertionProvider;
+    expect((await mean.run(['hello'], DEFAULT_CONTEXT)).pass).toBe(false);
+  });
+  test('caches llm-rubric calls', async function () {
+    const cache = new Map<string, unknown>();
+    const modelCache: ModelCache = {
+      get: (key) => Promise.resolve(cache.get(JSON.stringify(key))),
+      set: (key, value) => {
+        cache.set(JSON.stringify(key), value);
+        return Promise.resolve();
+      },
+    };
+    const mgr = new AssertionManager(new ProviderManager({}), new AbortController().signal, {
+      cache: modelCache,
+    });
+    const assertion = mgr.getAssertion(
+      {
+        type: 'llm-rubric',
+        vars: {
+          rubric: 'Ignored',
+          prompt: '{"pass": true, "message": "Output: {{ output }}"}',
+          provider: 'echo:judge',
+        },
+      },
+      {},
+    ) as CellAssertionProvider;
+    await assertion.run(['hello'], DEFAULT_CONTEXT);
+    expect(cache.size).toBe(1);
+    await assertion.run(['hello'], DEFAULT_CONTEXT);
+    expect(cache.size).toBe(1);
+    await assertion.run(['goodbye'], DEFAULT_CONTEXT);
+    expect(cache.size).toBe(2);
+  });
+  test('supports factuality', async function () {
+    const mgr = createAssertionManager();
+    const assertion = mgr.getAssertion(
+      {
+        type: 'factuality',
+        vars: {
+          expected: '{{ answer }}',
+          prompt: '{"category": "{{ expected }}", "message": "{{ output }}"}',
+          provider: 'echo:judge',
+        },
+      },
+      { answer: 'superset' },
+    ) as CellAssertionProvider;
+    const res = await assertion.run(['More detail'], DEFAULT_CONTEXT);
+    expect(res).toEqual({
+      pass: true,
+      message: 'Output is a superset of the expected answer: More detail',
+      outputs: { subset: false, superset: true, equivalent: false, contradicts: false },
+    });
+
+    const closedQa = mgr.getAssertion(
+      {
+        type: 'closed-qa',
+        vars: {
+          expected: 'subset',
+          question: 'Ignored',
+          prompt: '{"category": "{{ expected }}"}',
+          provider: 'echo:judge',
+        },
+      },
+      {},
+    ) as CellAssertionProvider;
+    const res2 = await closedQa.run(['Partial'], DEFAULT_CONTEXT);
+    expect(res2.pass).toBe(false);
+    expect(res2.message).toBe('Output is a subset of the expected answer');
+
+    expect(() =>
+      mgr.getAssertion({ type: 'closed-qa', vars: { expected: 'Paris' } }, {}),
+    ).toThrowError('Invalid closed-qa arguments');
+  });
   test('substitutes variables in llm-rubric', async function () {
     const mgr = createAssertionManager();
     const assertion = mgr.getAssertion(
@@ -152,6 +443,45 @@ describe('AssertionManager', () => {
       ]
     `);
   });
+
+  test('supports pairwise', async function () {
+    const mgr = createAssertionManager();
+    const assertion = mgr.getAssertion(
+      {
+        type: 'pairwise',
+        vars: {
+          criteria: 'Ignored',
+          // The judge picks whatever document A says
+          prompt: '{"winner": "{{#each a}}{{this}}{{/each}}"}',
+          provider: 'echo:judge',
+          swap: true,
+        },
+      },
+      {},
+    ) as RowAssertionProvider;
+    const res = await assertion.run(
+      [{ output: ['A'] }, { output: ['B'] }, { output: ['tie'] }, { error: 'Failed' }],
+      { prompts: [] },
+    );
+    expect(res[0]).toEqual({
+      pass: true,
+      score: 0.875,
+      message: 'Won 2, lost 0, tied 0 of 2 comparisons',
+      outputs: { wins: 2, losses: 0, ties: 0 },
+      // env 0 beats 2 as A, but they tie as B
+      comparisons: [
+        { opponent: 1, score: 1 },
+        { opponent: 2, score: 0.75 },
+      ],
+    });
+    // env 1 loses to 2 as A, but they tie as B, so it loses overall
+    expect(res[1].comparisons).toEqual([
+      { opponent: 0, score: 0 },
+      { opponent: 2, score: 0.25 },
+    ]);
+    expect(res[2].score).toBe(0.5);
+    expect(res[3]).toEqual({ pass: false, message: 'No output to compare' });
+  });
 });
 
 function createAssertionManager(): AssertionManager {
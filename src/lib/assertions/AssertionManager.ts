@@ -1,25 +1,135 @@
-import type { Assertion, AssertionProvider, NormalizedTestCase } from '$lib/types';
+import type {
+  Assertion,
+  AssertionProvider,
+  ModelCache,
+  NormalizedAssertion,
+  NormalizedAssertionType,
+  NormalizedTestCase,
+} from '$lib/types';
 import { createContainsAssertion } from './contains';
 import { createJavascriptAssertion } from './javascript';
 import Handlebars from 'handlebars';
 import { createRegexAssertion } from './regex';
 import { createEqualsAssertion } from './equals';
 import { createLlmRubricAssertion } from './llmRubric';
+import { createFactualityAssertion } from './factuality';
 import type { ProviderManager } from '$lib/providers/ProviderManager';
 import { createSelectBestAssertion } from './selectBest';
 import { createConsistencyAssertion } from './consistency';
+import { createPairwiseAssertion } from './pairwise';
+import { createIsJsonAssertion, createJsonSchemaAssertion } from './isJson';
+import { createCostAssertion } from './cost';
+import { createLatencyAssertion } from './latency';
+import { createAllAssertion, createAnyAssertion, createNotAssertion } from './composite';
+import { createSimilarityAssertion, type SimilarityMetric } from './similarity';
+import { createToolCallAssertion } from './toolCall';
+import { createImageAssertion } from './image';
+import { createNoPiiAssertion } from './noPii';
+import { wrapWithTransform } from './transform';
+import { wrapWithStep } from './step';
+import { formatJsonSchemaErrors, validateJsonSchema } from '$lib/utils/jsonSchema';
+import { z } from 'zod';
+
+const assertionSetArgsSchema = z.object({
+  name: z.string(),
+});
+
+interface BuiltinAssertionContext {
+  vars: Assertion['vars'];
+  testVars: NormalizedTestCase['vars'];
+  manager: AssertionManager;
+  abortSignal: AbortSignal;
+  cache?: ModelCache;
+}
+
+function createSimilarity(metric: SimilarityMetric) {
+  return ({ vars, testVars }: BuiltinAssertionContext) =>
+    createSimilarityAssertion(metric, prePopulateVars(vars, testVars));
+}
+
+const builtinAssertions: Record<string, (context: BuiltinAssertionContext) => AssertionProvider> = {
+  equals: ({ vars, testVars }) => createEqualsAssertion(prePopulateVars(vars, testVars)),
+  contains: ({ vars, testVars }) => createContainsAssertion(prePopulateVars(vars, testVars)),
+  regex: ({ vars, testVars }) => createRegexAssertion(prePopulateVars(vars, testVars)),
+  'is-json': ({ vars, testVars }) => createIsJsonAssertion(prePopulateVars(vars, testVars)),
+  'json-schema': ({ vars, testVars }) => createJsonSchemaAssertion(prePopulateVars(vars, testVars)),
+  levenshtein: createSimilarity('levenshtein'),
+  'rouge-l': createSimilarity('rouge-l'),
+  bleu: createSimilarity('bleu'),
+  'token-f1': createSimilarity('token-f1'),
+  'tool-call': ({ vars, testVars }) => createToolCallAssertion(prePopulateVars(vars, testVars)),
+  'no-pii': ({ vars, testVars }) => createNoPiiAssertion(prePopulateVars(vars, testVars)),
+  image: ({ vars, testVars }) => createImageAssertion(prePopulateVars(vars, testVars)),
+  cost: ({ vars }) => createCostAssertion(vars),
+  latency: ({ vars }) => createLatencyAssertion(vars),
+  not: ({ vars, testVars, manager }) => createNotAssertion(vars, testVars, manager),
+  all: ({ vars, testVars, manager }) => createAllAssertion(vars, testVars, manager),
+  any: ({ vars, testVars, manager }) => createAnyAssertion(vars, testVars, manager),
+  'assertion-set': ({ vars, testVars, manager }) => manager.createAssertionSet(vars, testVars),
+  javascript: ({ vars, testVars }) => createJavascriptAssertion(vars, testVars),
+  'llm-rubric': ({ vars, testVars, manager, abortSignal, cache }) =>
+    createLlmRubricAssertion(vars, testVars, manager.providerManager, abortSignal, cache),
+  factuality: createFactuality('factuality'),
+  'closed-qa': createFactuality('closed-qa'),
+  'select-best': ({ vars, testVars, manager, abortSignal, cache }) =>
+    createSelectBestAssertion(vars, testVars, manager.providerManager, abortSignal, cache),
+  pairwise: ({ vars, testVars, manager, abortSignal, cache }) =>
+    createPairwiseAssertion(vars, testVars, manager.providerManager, abortSignal, cache),
+  consistency: ({ vars, testVars, manager, abortSignal, cache }) =>
+    createConsistencyAssertion(vars, testVars, manager.providerManager, abortSignal, cache),
+};
+
+function createFactuality(type: 'factuality' | 'closed-qa') {
+  return ({ vars, testVars, manager, abortSignal, cache }: BuiltinAssertionContext) =>
+    createFactualityAssertion(
+      type,
+      // Don't populate the judge prompt, it is rendered later with the output
+      prePopulateVars(vars, testVars, ['expected', 'question']),
+      testVars,
+      manager.providerManager,
+      abortSignal,
+      cache,
+    );
+}
+
+// Custom assertion types can't use these names
+export const builtinAssertionTypes = Object.keys(builtinAssertions);
+
+export interface AssertionManagerOptions {
+  assertionSets?: Record<string, NormalizedAssertion[]>;
+  assertionTypes?: Record<string, NormalizedAssertionType>;
+  // Used for LLM-graded assertions
+  cache?: ModelCache;
+}
 
 export class AssertionManager {
   assertions: AssertionProvider[] = [];
+  private resolvingSets: string[] = [];
+
+  private assertionSets: Record<string, NormalizedAssertion[]>;
+  private assertionTypes: Record<string, NormalizedAssertionType>;
+  private cache?: ModelCache;
 
   constructor(
     public providerManager: ProviderManager,
     private abortSignal: AbortSignal,
-  ) {}
+    options: AssertionManagerOptions = {},
+  ) {
+    this.assertionSets = options.assertionSets ?? {};
+    this.assertionTypes = options.assertionTypes ?? {};
+    this.cache = options.cache;
+  }
 
   getAssertion(assertion: Assertion, testVars: NormalizedTestCase['vars']): AssertionProvider {
-    const provider = this.createAssertion(assertion.type, assertion.vars, testVars);
+    let provider = this.createAssertion(assertion.type, assertion.vars, testVars);
     this.assertions.push(provider);
+    if (assertion.transform !== undefined) {
+      provider = wrapWithTransform(provider, assertion.transform, testVars);
+    }
+    if (assertion.step !== undefined) {
+      // Select the step first, so the transform applies to the step's output
+      provider = wrapWithStep(provider, assertion.step);
+    }
     return provider;
   }
   destroy() {
@@ -33,33 +143,73 @@ export class AssertionManager {
     vars: Assertion['vars'],
     testVars: NormalizedTestCase['vars'],
   ): AssertionProvider {
-    if (type === 'equals') {
-      const populatedVars = prePopulateVars(vars, testVars);
-      return createEqualsAssertion(populatedVars);
-    } else if (type === 'contains') {
-      const populatedVars = prePopulateVars(vars, testVars);
-      return createContainsAssertion(populatedVars);
-    } else if (type === 'regex') {
-      const populatedVars = prePopulateVars(vars, testVars);
-      return createRegexAssertion(populatedVars);
-    } else if (type === 'javascript') {
-      return createJavascriptAssertion(vars, testVars);
-    } else if (type === 'llm-rubric') {
-      return createLlmRubricAssertion(vars, testVars, this.providerManager, this.abortSignal);
-    } else if (type === 'select-best') {
-      return createSelectBestAssertion(vars, testVars, this.providerManager, this.abortSignal);
-    } else if (type === 'consistency') {
-      return createConsistencyAssertion(vars, testVars, this.providerManager, this.abortSignal);
+    if (Object.hasOwn(builtinAssertions, type)) {
+      return builtinAssertions[type]({
+        vars,
+        testVars,
+        manager: this,
+        abortSignal: this.abortSignal,
+        cache: this.cache,
+      });
+    } else if (Object.hasOwn(this.assertionTypes, type)) {
+      return this.createCustomAssertion(type, vars, testVars);
     } else {
       throw new Error(`Unknown assertion type: ${type}`);
     }
   }
+
+  private createCustomAssertion(
+    type: string,
+    vars: Assertion['vars'],
+    testVars: NormalizedTestCase['vars'],
+  ): AssertionProvider {
+    const { code, row, schema } = this.assertionTypes[type];
+    const params = prePopulateVars(vars, testVars);
+    if (schema !== undefined) {
+      const errors = validateJsonSchema(params, schema);
+      if (errors.length > 0) {
+        throw new Error(`Invalid ${type} arguments:\n${formatJsonSchemaErrors(errors)}`);
+      }
+    }
+    return createJavascriptAssertion({ code, row }, testVars, { params });
+  }
+
+  createAssertionSet(
+    vars: Assertion['vars'],
+    testVars: NormalizedTestCase['vars'],
+  ): AssertionProvider {
+    const parsedArgs = assertionSetArgsSchema.safeParse(prePopulateVars(vars, testVars));
+    if (!parsedArgs.success) {
+      throw new Error('Invalid assertion-set arguments');
+    }
+
+    const { name } = parsedArgs.data;
+    if (!(name in this.assertionSets)) {
+      throw new Error(`Unknown assertion set: ${name}`);
+    }
+    if (this.resolvingSets.includes(name)) {
+      throw new Error(`Cyclic assertion set: ${[...this.resolvingSets, name].join(' -> ')}`);
+    }
+    this.resolvingSets.push(name);
+    try {
+      return createAllAssertion({ assert: this.assertionSets[name] }, testVars, this);
+    } finally {
+      this.resolvingSets.pop();
+    }
+  }
 }
 
-function prePopulateVars(vars: Assertion['vars'], testVars: NormalizedTestCase['vars']) {
+function prePopulateVars(
+  vars: Assertion['vars'],
+  testVars: NormalizedTestCase['vars'],
+  keys?: string[],
+) {
   const populatedVars = { ...vars };
 
   for (const key in populatedVars) {
+    if (keys && !keys.includes(key)) {
+      continue;
+    }
     if (typeof populatedVars[key] === 'string') {
       const template = Handlebars.compile(populatedVars[key], { noEscape: true });
       populatedVars[key] = template(testVars);
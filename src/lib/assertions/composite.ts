@@ -0,0 +1,133 @@
+import {
+  assertionSchema,
+  type AssertionProvider,
+  type AssertionResult,
+  type CellAssertionProvider,
+  type NormalizedTestCase,
+  type RowAssertionProvider,
+} from '$lib/types';
+import { getAssertionScore } from '$lib/utils/scoreAssertions';
+import { z } from 'zod';
+import type { AssertionManager } from './AssertionManager';
+
+const notArgsSchema = z.object({
+  assert: assertionSchema,
+});
+
+const groupArgsSchema = z.object({
+  assert: z.array(assertionSchema).min(1),
+});
+
+export function createNotAssertion(
+  args: unknown,
+  testVars: NormalizedTestCase['vars'],
+  assertionManager: AssertionManager,
+): CellAssertionProvider {
+  const parsedArgs = notArgsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid not arguments');
+  }
+
+  const child = getCellAssertion(parsedArgs.data.assert, testVars, assertionManager, 'not');
+  return {
+    run: async function (output, context): Promise<AssertionResult> {
+      const result = await child.run(output, context);
+      const pass = !result.pass;
+      return {
+        pass,
+        score: 1 - getAssertionScore(result),
+        message: pass ? undefined : `Expected "${parsedArgs.data.assert.type}" to fail`,
+        visuals: result.visuals,
+        children: [result],
+      };
+    },
+  };
+}
+
+export function createAllAssertion(
+  args: unknown,
+  testVars: NormalizedTestCase['vars'],
+  assertionManager: AssertionManager,
+): CellAssertionProvider {
+  const parsedArgs = groupArgsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid all arguments');
+  }
+
+  return createGroupAssertion(
+    parsedArgs.data.assert.map((a) => getCellAssertion(a, testVars, assertionManager, 'all')),
+    (results) => {
+      const failed = results.filter((r) => !r.pass).length;
+      const scores = results.map(getAssertionScore);
+      return {
+        pass: failed === 0,
+        score: scores.reduce((a, b) => a + b, 0) / scores.length,
+        message: failed === 0 ? undefined : `${failed} of ${results.length} assertions failed`,
+      };
+    },
+  );
+}
+
+export function createAnyAssertion(
+  args: unknown,
+  testVars: NormalizedTestCase['vars'],
+  assertionManager: AssertionManager,
+): CellAssertionProvider {
+  const parsedArgs = groupArgsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid any arguments');
+  }
+
+  return createGroupAssertion(
+    parsedArgs.data.assert.map((a) => getCellAssertion(a, testVars, assertionManager, 'any')),
+    (results) => {
+      const pass = results.some((r) => r.pass);
+      return {
+        pass,
+        score: Math.max(...results.map(getAssertionScore)),
+        message: pass ? undefined : `None of ${results.length} assertions passed`,
+      };
+    },
+  );
+}
+
+function createGroupAssertion(
+  children: CellAssertionProvider[],
+  combine: (results: AssertionResult[]) => Pick<AssertionResult, 'pass' | 'score' | 'message'>,
+): CellAssertionProvider {
+  return {
+    run: async function (output, context): Promise<AssertionResult> {
+      const results: AssertionResult[] = [];
+      for (const child of children) {
+        results.push(await child.run(output, context));
+      }
+      const visuals = results.flatMap((r) => r.visuals ?? []);
+      return {
+        ...combine(results),
+        visuals: visuals.length > 0 ? visuals : undefined,
+        children: results,
+      };
+    },
+  };
+}
+
+export function getCellAssertion(
+  assertion: z.infer<typeof assertionSchema>,
+  testVars: NormalizedTestCase['vars'],
+  assertionManager: AssertionManager,
+  parentType: string,
+): CellAssertionProvider {
+  const provider = assertionManager.getAssertion(
+    { ...assertion, vars: assertion.vars ?? {} },
+    testVars,
+  );
+  if (isRowAssertion(provider)) {
+    throw new Error(`Row-level assertion "${assertion.type}" cannot be used inside ${parentType}`);
+  }
+  return provider;
+}
+
+function isRowAssertion(provider: AssertionProvider): provider is RowAssertionProvider {
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+  return 'type' in provider && provider.type === 'row';
+}
@@ -4,6 +4,7 @@ import {
   assertionResultSchema,
   providerSchema,
   type AssertionResult,
+  type ModelCache,
   type NormalizedTestCase,
   type RowAssertionProvider,
   type TestOutput,
@@ -24,6 +25,7 @@ export function createConsistencyAssertion(
   testVars: NormalizedTestCase['vars'],
   providerManager: ProviderManager,
   abortSignal: AbortSignal,
+  cache?: ModelCache,
 ): RowAssertionProvider {
   const parsedArgs = argsSchema.safeParse(args);
   if (!parsedArgs.success) {
@@ -39,6 +41,7 @@ export function createConsistencyAssertion(
   const env = new SimpleEnvironment({
     model,
     promptFormatter: new HandlebarsPromptFormatter(prompt ?? CONSISTENCY_PROMPT),
+    cache,
   });
   // TODO also populate placeholders in the rubric
   // TODO make rubric optional if prompt is provided
@@ -0,0 +1,28 @@
+import type { CellAssertionProvider, AssertionResult } from '$lib/types';
+import { z } from 'zod';
+
+const argsSchema = z.object({
+  maxDollars: z.number().nonnegative(),
+});
+
+export function createCostAssertion(args: unknown): CellAssertionProvider {
+  const parsedArgs = argsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid cost arguments');
+  }
+
+  const { maxDollars } = parsedArgs.data;
+  return {
+    run: function (_output, { testOutput }): AssertionResult {
+      const costDollars = testOutput.tokenUsage?.costDollars;
+      if (costDollars === undefined) {
+        return { pass: false, message: 'Cost is not available for this provider' };
+      }
+      const pass = costDollars <= maxDollars;
+      return {
+        pass,
+        message: pass ? undefined : `Cost $${costDollars.toFixed(6)} exceeds $${maxDollars}`,
+      };
+    },
+  };
+}
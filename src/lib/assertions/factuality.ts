@@ -0,0 +1,136 @@
+import { CLOSED_QA_PROMPT, DEFAULT_LLM_ASSERTION_PROVIDER, FACTUALITY_PROMPT } from '$lib/prompts';
+import type { ProviderManager } from '$lib/providers/ProviderManager';
+import {
+  providerSchema,
+  type AssertionResult,
+  type CellAssertionProvider,
+  type ModelCache,
+  type NormalizedTestCase,
+  type TestOutput,
+  type TestResult,
+} from '$lib/types';
+import { extractAllJsonObjects } from '$lib/utils/extractAllJson';
+import { HandlebarsPromptFormatter } from '$lib/utils/HandlebarsPromptFormatter';
+import { SimpleEnvironment } from '$lib/utils/SimpleEnvironment';
+import { z } from 'zod';
+
+const CATEGORIES = ['subset', 'superset', 'equivalent', 'contradicts'] as const;
+type Category = (typeof CATEGORIES)[number];
+
+const DEFAULT_PASS_CATEGORIES: Record<FactualityType, Category[]> = {
+  factuality: ['subset', 'superset', 'equivalent'],
+  // The answer must include everything in the expert answer
+  'closed-qa': ['superset', 'equivalent'],
+};
+
+export type FactualityType = 'factuality' | 'closed-qa';
+
+const argsSchema = z.object({
+  expected: z.string(),
+  question: z.string().optional(),
+  prompt: z.string().optional(),
+  provider: providerSchema.optional(),
+  passCategories: z.array(z.enum(CATEGORIES)).min(1).optional(),
+});
+
+const judgeResultSchema = z.object({
+  category: z.enum(CATEGORIES),
+  message: z.string().optional(),
+});
+
+export function createFactualityAssertion(
+  type: FactualityType,
+  args: unknown,
+  testVars: NormalizedTestCase['vars'],
+  providerManager: ProviderManager,
+  abortSignal: AbortSignal,
+  cache?: ModelCache,
+): CellAssertionProvider {
+  const parsedArgs = argsSchema.safeParse(args);
+  if (!parsedArgs.success || (type === 'closed-qa' && parsedArgs.data.question === undefined)) {
+    throw new Error(`Invalid ${type} arguments`);
+  }
+
+  const { expected, question, prompt, provider: providerOptions } = parsedArgs.data;
+  const passCategories = parsedArgs.data.passCategories ?? DEFAULT_PASS_CATEGORIES[type];
+  const provider =
+    typeof providerOptions === 'string'
+      ? { id: providerOptions, config: {} }
+      : (providerOptions ?? { id: DEFAULT_LLM_ASSERTION_PROVIDER, config: {} });
+  const model = providerManager.getProvider(provider.id, provider.config);
+  const env = new SimpleEnvironment({
+    model,
+    promptFormatter: new HandlebarsPromptFormatter(
+      prompt ?? (type === 'factuality' ? FACTUALITY_PROMPT : CLOSED_QA_PROMPT),
+    ),
+    cache,
+  });
+
+  return {
+    run: async function (output: NonNullable<TestResult['output']>): Promise<AssertionResult> {
+      if (!Array.isArray(output)) {
+        output = [output];
+      }
+      const generator = env.run({ ...testVars, output, expected, question }, { abortSignal });
+      let next;
+      while (!next?.done) {
+        // Skip over the streaming responses.
+        next = await generator.next();
+      }
+      const result = next.value;
+      const judgeOutput = extractOutputAsString(result.output);
+      if (!judgeOutput) {
+        return {
+          pass: false,
+          message: `Judge did not succeed: ${result.error ?? 'No error message'}`,
+        };
+      }
+
+      const parsed = judgeResultSchema.safeParse(extractAllJsonObjects(judgeOutput)[0]);
+      if (!parsed.success) {
+        return {
+          pass: false,
+          message: `Invalid judge output: "${judgeOutput}"`,
+        };
+      }
+
+      const { category, message } = parsed.data;
+      const pass = passCategories.includes(category);
+      return {
+        pass,
+        message: `Output ${formatCategory(category)} the expected answer${message ? `: ${message}` : ''}`,
+        // One-hot, so the summary shows the distribution of categories
+        outputs: Object.fromEntries(CATEGORIES.map((c) => [c, c === category])),
+      };
+    },
+  };
+}
+
+function formatCategory(category: Category): string {
+  switch (category) {
+    case 'subset':
+      return 'is a subset of';
+    case 'superset':
+      return 'is a superset of';
+    case 'equivalent':
+      return 'is equivalent to';
+    case 'contradicts':
+      return 'contradicts';
+  }
+}
+
+function extractOutputAsString(output: TestOutput['output']): string | undefined {
+  if (!output) {
+    return undefined;
+  }
+  if (typeof output === 'string') {
+    return output;
+  }
+
+  // It's an array
+  const strings = output.filter((val): val is string => typeof val === 'string');
+  if (strings.length === 0) {
+    return undefined;
+  }
+  return strings.join(' '); // Just concatenate all strings
+}
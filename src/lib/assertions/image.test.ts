@@ -0,0 +1,92 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { createImageAssertion, parseAspectRatio } from './image';
+import { FileReference } from '$lib/storage/FileReference';
+import { HASH_HEIGHT, HASH_WIDTH } from '$lib/utils/imageHash';
+
+const DEFAULT_CONTEXT = {
+  provider: { id: 'reverser:whatever' },
+  prompt: '{{ output }}',
+  testOutput: {},
+};
+
+// The test images hold their scaled RGBA pixels, which the stubbed canvas draws as-is
+function createImage(name: string, brightness: (x: number, y: number) => number): FileReference {
+  const pixels: number[] = [];
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH; x++) {
+      const v = brightness(x, y);
+      pixels.push(v, v, v, 255);
+    }
+  }
+  const file = new File([new Uint8Array(pixels)], name, { type: 'image/png' });
+  return new FileReference(`file:///${name}`, file);
+}
+
+function stubImageDecoding() {
+  vi.stubGlobal('createImageBitmap', async (file: Blob) => ({
+    width: 64,
+    height: 48,
+    data: new Uint8ClampedArray(await file.arrayBuffer()),
+    close: vi.fn(),
+  }));
+  vi.stubGlobal(
+    'OffscreenCanvas',
+    class {
+      getContext() {
+        let data: Uint8ClampedArray;
+        return {
+          drawImage: (bitmap: { data: Uint8ClampedArray }) => {
+            data = bitmap.data;
+          },
+          getImageData: () => ({ data }),
+        };
+      }
+    },
+  );
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('image', () => {
+  test('fails without an image', async () => {
+    const assertion = createImageAssertion({ mimeType: 'image/png' });
+    const res = await assertion.run(['Here is your image'], DEFAULT_CONTEXT);
+    expect(res).toEqual({ pass: false, message: 'No image found in output' });
+  });
+  test('validates arguments', () => {
+    expect(() => createImageAssertion({ aspectRatio: 'wide' })).toThrow('Invalid image arguments');
+    expect(() => createImageAssertion({ reference: 'file:///ref.png' })).toThrow(
+      'Invalid image arguments',
+    );
+  });
+  test('parses aspect ratios', () => {
+    expect(parseAspectRatio('16:9')).toBeCloseTo(1.778, 3);
+    expect(parseAspectRatio(1.5)).toBe(1.5);
+  });
+  test('compares images against a reference', async () => {
+    stubImageDecoding();
+    const reference = createImage('reference.png', (x, y) => (x * 37 + y * 11) % 200);
+    // Differs from the reference in two bits of its hash
+    const image = createImage('output.png', (x, y) =>
+      y === 0 && x === 5 ? 0 : (x * 37 + y * 11) % 200,
+    );
+
+    const res = await createImageAssertion({ reference, maxDistance: 2 }).run(
+      [image],
+      DEFAULT_CONTEXT,
+    );
+    expect(res).toMatchObject({
+      pass: true,
+      outputs: { imageCount: 1, hashDistance: 2 },
+    });
+    expect(res.visuals).toEqual([expect.stringContaining('Hash distance: 2/64'), image, reference]);
+
+    const strict = await createImageAssertion({ reference, maxDistance: 1 }).run(
+      [image],
+      DEFAULT_CONTEXT,
+    );
+    expect(strict).toMatchObject({ pass: false, message: 'Hash distance 2 exceeds 1' });
+  });
+});
@@ -0,0 +1,174 @@
+import { FileReference } from '$lib/storage/FileReference';
+import type { AssertionResult, CellAssertionProvider } from '$lib/types';
+import {
+  formatHash,
+  getImageInfo,
+  hammingDistance,
+  HASH_BITS,
+  type ImageInfo,
+} from '$lib/utils/imageHash';
+import { matchesMimeType, mimeTypeForFile } from '$lib/utils/media';
+import { z } from 'zod';
+
+const dimensionSchema = z.number().int().positive();
+
+const argsSchema = z.object({
+  mimeType: z.union([z.string(), z.array(z.string())]).optional(),
+  width: dimensionSchema.optional(),
+  height: dimensionSchema.optional(),
+  minWidth: dimensionSchema.optional(),
+  maxWidth: dimensionSchema.optional(),
+  minHeight: dimensionSchema.optional(),
+  maxHeight: dimensionSchema.optional(),
+  // A number (width / height) or a ratio such as "16:9"
+  aspectRatio: z
+    .union([z.number().positive(), z.string().regex(/^\d+(\.\d+)?:\d+(\.\d+)?$/)])
+    .optional(),
+  aspectRatioTolerance: z.number().nonnegative().optional(),
+  minBytes: z.number().int().nonnegative().optional(),
+  maxBytes: z.number().int().nonnegative().optional(),
+  reference: z.instanceof(FileReference).optional(),
+  maxDistance: z.number().int().min(0).max(HASH_BITS).optional(),
+});
+type Args = z.infer<typeof argsSchema>;
+
+export function createImageAssertion(args: unknown): CellAssertionProvider {
+  const parsedArgs = argsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid image arguments');
+  }
+
+  const { reference } = parsedArgs.data;
+  const maxDistance = parsedArgs.data.maxDistance ?? 10;
+  let referenceInfo: Promise<ImageInfo> | undefined;
+  return {
+    run: async function (output): Promise<AssertionResult> {
+      const images = Array.isArray(output) ? output.filter(isImage) : [];
+      if (images.length === 0) {
+        return { pass: false, message: 'No image found in output' };
+      }
+
+      const failures: string[] = [];
+      const distances: number[] = [];
+      const visuals: (string | FileReference)[] = [];
+      for (const [index, image] of images.entries()) {
+        const label = images.length > 1 ? `Image ${index + 1}: ` : '';
+        let info: ImageInfo;
+        try {
+          info = await getImageInfo(image.file);
+        } catch (e) {
+          failures.push(`${label}Could not decode image: ${formatError(e)}`);
+          continue;
+        }
+        failures.push(...checkImage(image.file, info, parsedArgs.data).map((f) => label + f));
+
+        if (reference) {
+          try {
+            referenceInfo ??= getImageInfo(reference.file);
+            const refHash = (await referenceInfo).hash;
+            const distance = hammingDistance(info.hash, refHash);
+            distances.push(distance);
+            visuals.push(
+              `${label}Hash distance: ${distance}/${HASH_BITS} (max ${maxDistance})\n` +
+                `output:    ${formatHash(info.hash)}\n` +
+                `reference: ${formatHash(refHash)}`,
+              image,
+            );
+            if (distance > maxDistance) {
+              failures.push(`${label}Hash distance ${distance} exceeds ${maxDistance}`);
+            }
+          } catch (e) {
+            failures.push(`Could not decode reference image: ${formatError(e)}`);
+          }
+        }
+      }
+
+      if (reference && distances.length > 0) {
+        visuals.push(reference);
+      }
+
+      return {
+        pass: failures.length === 0,
+        message: failures.length > 0 ? failures.join('\n') : undefined,
+        outputs:
+          distances.length > 0
+            ? { imageCount: images.length, hashDistance: Math.max(...distances) }
+            : { imageCount: images.length },
+        visuals: visuals.length > 0 ? visuals : undefined,
+      };
+    },
+  };
+}
+
+function checkImage(file: File, info: ImageInfo, args: Args): string[] {
+  const failures: string[] = [];
+  const { width, height } = info;
+
+  if (args.mimeType !== undefined) {
+    const patterns = Array.isArray(args.mimeType) ? args.mimeType : [args.mimeType];
+    const mimeType = getMimeType(file);
+    if (!patterns.some((p) => matchesMimeType(p, mimeType))) {
+      failures.push(`Expected mime type ${patterns.join(' or ')}, got ${mimeType || 'unknown'}`);
+    }
+  }
+
+  const checkDimension = (name: string, actual: number, expected: number | undefined) => {
+    if (expected !== undefined && actual !== expected) {
+      failures.push(`Expected ${name} ${expected}px, got ${actual}px`);
+    }
+  };
+  const checkRange = (name: string, actual: number, min?: number, max?: number) => {
+    if (min !== undefined && actual < min) {
+      failures.push(`Expected ${name} at least ${min}, got ${actual}`);
+    }
+    if (max !== undefined && actual > max) {
+      failures.push(`Expected ${name} at most ${max}, got ${actual}`);
+    }
+  };
+  checkDimension('width', width, args.width);
+  checkDimension('height', height, args.height);
+  checkRange('width', width, args.minWidth, args.maxWidth);
+  checkRange('height', height, args.minHeight, args.maxHeight);
+  checkRange('file size', file.size, args.minBytes, args.maxBytes);
+
+  if (args.aspectRatio !== undefined) {
+    const expected = parseAspectRatio(args.aspectRatio);
+    const actual = width / height;
+    const tolerance = args.aspectRatioTolerance ?? 0.01;
+    if (Math.abs(actual - expected) / expected > tolerance) {
+      failures.push(
+        `Expected aspect ratio ${args.aspectRatio}, got ${actual.toFixed(3)} (${width}x${height})`,
+      );
+    }
+  }
+  return failures;
+}
+
+export function parseAspectRatio(ratio: number | string): number {
+  if (typeof ratio === 'number') {
+    return ratio;
+  }
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+}
+
+function getMimeType(file: File): string {
+  if (file.type) {
+    return file.type;
+  }
+  try {
+    return mimeTypeForFile(file);
+  } catch {
+    return '';
+  }
+}
+
+function isImage(part: unknown): part is FileReference {
+  return (
+    part instanceof FileReference && (part.type === 'image' || part.file.type.startsWith('image/'))
+  );
+}
+
+function formatError(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
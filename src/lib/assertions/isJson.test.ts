@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest';
+import { createIsJsonAssertion, createJsonSchemaAssertion } from './isJson';
+
+const DEFAULT_CONTEXT = {
+  provider: { id: 'reverser:whatever' },
+  prompt: '{{ output }}',
+  testOutput: {},
+};
+
+describe('createIsJsonAssertion', () => {
+  test('finds JSON in the output', async function () {
+    const assertion = createIsJsonAssertion({});
+    const res1 = await assertion.run(['```json\n{"hello": "world"}\n```'], DEFAULT_CONTEXT);
+    expect(res1.pass).toBe(true);
+
+    const res2 = await assertion.run(['[1, 2, 3]'], DEFAULT_CONTEXT);
+    expect(res2.pass).toBe(true);
+
+    const res3 = await assertion.run(['Hello!'], DEFAULT_CONTEXT);
+    expect(res3).toEqual({ pass: false, message: 'No JSON found in output' });
+  });
+});
+
+describe('createJsonSchemaAssertion', () => {
+  test('validates against a schema', async function () {
+    const assertion = createJsonSchemaAssertion({
+      schema: {
+        type: 'object',
+        properties: { answer: { type: 'number' } },
+        required: ['answer'],
+      },
+    });
+    const res1 = await assertion.run(['The result: {"answer": 42}'], DEFAULT_CONTEXT);
+    expect(res1.pass).toBe(true);
+
+    const res2 = await assertion.run(['{"answer": "42"}'], DEFAULT_CONTEXT);
+    expect(res2).toEqual({
+      pass: false,
+      message: 'JSON does not match schema:\n$.answer: expected number, got string',
+    });
+  });
+  test('requires a schema', function () {
+    expect(() => createJsonSchemaAssertion({})).toThrowError('Invalid json-schema arguments');
+  });
+});
@@ -0,0 +1,85 @@
+import type { CellAssertionProvider, AssertionResult } from '$lib/types';
+import { extractAllJsonObjects } from '$lib/utils/extractAllJson';
+import { formatJsonSchemaErrors, validateJsonSchema, type JsonSchema } from '$lib/utils/jsonSchema';
+import { z } from 'zod';
+import { wrapLegacyAssertion } from './legacyAssertion';
+
+const isJsonArgsSchema = z
+  .object({
+    schema: z.union([z.boolean(), z.record(z.string(), z.unknown())]).optional(),
+  })
+  .optional();
+
+const jsonSchemaArgsSchema = z.object({
+  schema: z.union([z.boolean(), z.record(z.string(), z.unknown())]),
+});
+
+export function createIsJsonAssertion(args: unknown): CellAssertionProvider {
+  const parsedArgs = isJsonArgsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid is-json arguments');
+  }
+
+  const schema = parsedArgs.data?.schema;
+  return wrapLegacyAssertion({
+    run: function (output: string): AssertionResult {
+      const json = findJson(output);
+      if (json.length === 0) {
+        return { pass: false, message: 'No JSON found in output' };
+      }
+      if (schema === undefined) {
+        return { pass: true };
+      }
+      return checkSchema(json[0], schema);
+    },
+  });
+}
+
+export function createJsonSchemaAssertion(args: unknown): CellAssertionProvider {
+  const parsedArgs = jsonSchemaArgsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid json-schema arguments');
+  }
+
+  const { schema } = parsedArgs.data;
+  return wrapLegacyAssertion({
+    run: function (output: string): AssertionResult {
+      const json = findJson(output);
+      if (json.length === 0) {
+        return { pass: false, message: 'No JSON found in output' };
+      }
+      return checkSchema(json[0], schema);
+    },
+  });
+}
+
+/**
+ * Returns the output parsed as JSON if possible, otherwise any JSON objects
+ * embedded in it (e.g. inside a markdown code block).
+ */
+export function findJson(output: string): unknown[] {
+  try {
+    return [JSON.parse(output.trim())];
+  } catch {
+    return extractAllJsonObjects(output);
+  }
+}
+
+function checkSchema(value: unknown, schema: JsonSchema): AssertionResult {
+  let errors;
+  try {
+    errors = validateJsonSchema(value, schema);
+  } catch (e) {
+    return {
+      pass: false,
+      message: `Invalid schema: ${e instanceof Error ? e.message : String(e)}`,
+    };
+  }
+  if (errors.length === 0) {
+    return { pass: true };
+  }
+  return {
+    pass: false,
+    message: `JSON does not match schema:\n${formatJsonSchemaErrors(errors)}`,
+  };
+}
@@ -24,6 +24,7 @@ type JsResult = z.infer<typeof jsResultSchema>;
 export function createJavascriptAssertion(
   args: unknown,
   testVars: NormalizedTestCase['vars'],
+  extraContext: Record<string, unknown> = {},
 ): AssertionProvider {
   const parsedArgs = argsSchema.safeParse(args);
   if (!parsedArgs.success) {
@@ -41,7 +42,7 @@ export function createJavascriptAssertion(
             const code = await toCodeReference(parsedArgs.data.code);
             execute = await code.bind();
           }
-          const res = await execute(output, { vars: testVars, ...context });
+          const res = await execute(output, { vars: testVars, ...extraContext, ...context });
           const parsed = jsResultSchema.parse(res);
           return await sanitizeResult(parsed);
         } catch (e) {
@@ -63,7 +64,7 @@ export function createJavascriptAssertion(
             const code = await toCodeReference(parsedArgs.data.code);
             execute = await code.bind();
           }
-          const res = await execute(results, { vars: testVars, ...context });
+          const res = await execute(results, { vars: testVars, ...extraContext, ...context });
           const parsed = z.array(jsResultSchema).parse(res);
           return await Promise.all(parsed.map((res) => sanitizeResult(res)));
         } catch (e) {
@@ -99,6 +100,7 @@ async function sanitizeResult(result: JsResult): Promise<AssertionResult> {
 
   return {
     pass: result.pass,
+    score: result.score,
     message: result.message,
     outputs: result.outputs,
     visuals,
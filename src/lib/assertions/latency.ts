@@ -0,0 +1,28 @@
+import type { CellAssertionProvider, AssertionResult } from '$lib/types';
+import { z } from 'zod';
+
+const argsSchema = z.object({
+  maxMillis: z.number().nonnegative(),
+});
+
+export function createLatencyAssertion(args: unknown): CellAssertionProvider {
+  const parsedArgs = argsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid latency arguments');
+  }
+
+  const { maxMillis } = parsedArgs.data;
+  return {
+    run: function (_output, { testOutput }): AssertionResult {
+      const latencyMillis = testOutput.latencyMillis;
+      if (latencyMillis === undefined) {
+        return { pass: false, message: 'Latency is not available' };
+      }
+      const pass = latencyMillis <= maxMillis;
+      return {
+        pass,
+        message: pass ? undefined : `Latency ${latencyMillis}ms exceeds ${maxMillis}ms`,
+      };
+    },
+  };
+}
@@ -5,79 +5,147 @@ import {
   providerSchema,
   type AssertionResult,
   type CellAssertionProvider,
+  type ModelCache,
   type NormalizedTestCase,
+  type ProviderOutputPart,
   type TestOutput,
   type TestResult,
 } from '$lib/types';
+import { getAssertionScore } from '$lib/utils/scoreAssertions';
 import { extractAllJsonObjects } from '$lib/utils/extractAllJson';
 import { HandlebarsPromptFormatter } from '$lib/utils/HandlebarsPromptFormatter';
 import { SimpleEnvironment } from '$lib/utils/SimpleEnvironment';
 import { z } from 'zod';
 
-const argsSchema = z.object({
-  rubric: z.string(),
-  prompt: z.string().optional(),
-  provider: providerSchema.optional(),
-});
+const argsSchema = z
+  .object({
+    rubric: z.string(),
+    prompt: z.string().optional(),
+    provider: providerSchema.optional(),
+    providers: z.array(providerSchema).min(1).optional(),
+    aggregation: z.enum(['majority', 'unanimous', 'mean']).optional(),
+    threshold: z.number().min(0).max(1).optional(), // For mean aggregation
+  })
+  .refine(
+    (args) => args.provider === undefined || args.providers === undefined,
+    'Use either provider or providers',
+  );
+
+type Aggregation = NonNullable<z.infer<typeof argsSchema>['aggregation']>;
+interface Judge {
+  id: string;
+  env: SimpleEnvironment;
+}
 
 export function createLlmRubricAssertion(
   args: unknown,
   testVars: NormalizedTestCase['vars'],
   providerManager: ProviderManager,
   abortSignal: AbortSignal,
+  cache?: ModelCache,
 ): CellAssertionProvider {
   const parsedArgs = argsSchema.safeParse(args);
   if (!parsedArgs.success) {
     throw new Error('Invalid LLM Rubric arguments');
   }
 
-  const { rubric, prompt, provider: providerOptions } = parsedArgs.data;
-  const provider =
-    typeof providerOptions === 'string'
-      ? { id: providerOptions, config: {} }
-      : (providerOptions ?? { id: DEFAULT_LLM_ASSERTION_PROVIDER, config: {} });
-  const model = providerManager.getProvider(provider.id, provider.config);
-  const env = new SimpleEnvironment({
-    model,
-    promptFormatter: new HandlebarsPromptFormatter(prompt ?? LLM_RUBRIC_PROMPT),
-  });
+  const { rubric, prompt, provider: providerOptions, providers } = parsedArgs.data;
+  const aggregation = parsedArgs.data.aggregation ?? 'majority';
+  const threshold = parsedArgs.data.threshold ?? 0.5;
+  const judges: Judge[] = (providers ?? [providerOptions ?? DEFAULT_LLM_ASSERTION_PROVIDER]).map(
+    (providerOption) => {
+      const provider =
+        typeof providerOption === 'string' ? { id: providerOption, config: {} } : providerOption;
+      const model = providerManager.getProvider(provider.id, provider.config);
+      const env = new SimpleEnvironment({
+        model,
+        promptFormatter: new HandlebarsPromptFormatter(prompt ?? LLM_RUBRIC_PROMPT),
+        cache,
+      });
+      return { id: provider.id, env };
+    },
+  );
   // TODO also populate placeholders in the rubric
   // TODO make rubric optional if prompt is provided
 
+  const runJudge = async (judge: Judge, output: ProviderOutputPart[]): Promise<AssertionResult> => {
+    const generator = judge.env.run({ output, rubric, ...testVars }, { abortSignal });
+    let next;
+    while (!next?.done) {
+      // Skip over the streaming responses.
+      next = await generator.next();
+    }
+    const result = next.value;
+    const rubricOutput = extractOutputAsString(result.output);
+    if (!rubricOutput) {
+      return {
+        pass: false,
+        message: `Rubric did not succeed: ${result.error ?? 'No error message'}`,
+      };
+    }
+
+    const objs = extractAllJsonObjects(rubricOutput);
+    try {
+      const validated = assertionResultSchema.parse(objs[0]);
+      return validated;
+    } catch {
+      return {
+        pass: false,
+        message: `Invalid rubric output: "${rubricOutput}"`,
+      };
+    }
+  };
+
   return {
     run: async function (output: NonNullable<TestResult['output']>): Promise<AssertionResult> {
       if (!Array.isArray(output)) {
         output = [output];
       }
-      const generator = env.run({ output, rubric, ...testVars }, { abortSignal });
-      let next;
-      while (!next?.done) {
-        // Skip over the streaming responses.
-        next = await generator.next();
-      }
-      const result = next.value;
-      const rubricOutput = extractOutputAsString(result.output);
-      if (!rubricOutput) {
-        return {
-          pass: false,
-          message: `Rubric did not succeed: ${result.error ?? 'No error message'}`,
-        };
-      }
-
-      const objs = extractAllJsonObjects(rubricOutput);
-      try {
-        const validated = assertionResultSchema.parse(objs[0]);
-        return validated;
-      } catch {
-        return {
-          pass: false,
-          message: `Invalid rubric output: "${rubricOutput}"`,
-        };
+      if (!providers) {
+        return runJudge(judges[0], output);
       }
+      const arrayOutput = output;
+      const verdicts = await Promise.all(judges.map((judge) => runJudge(judge, arrayOutput)));
+      return aggregateVerdicts(judges, verdicts, aggregation, threshold);
     },
   };
 }
 
+function aggregateVerdicts(
+  judges: Judge[],
+  verdicts: AssertionResult[],
+  aggregation: Aggregation,
+  threshold: number,
+): AssertionResult {
+  const passed = verdicts.filter((v) => v.pass).length;
+  const score = verdicts.map(getAssertionScore).reduce((a, b) => a + b, 0) / verdicts.length;
+  // The fraction of judges that agree with the most common verdict
+  const agreement = Math.max(passed, verdicts.length - passed) / verdicts.length;
+
+  let pass: boolean;
+  if (aggregation === 'unanimous') {
+    pass = passed === verdicts.length;
+  } else if (aggregation === 'mean') {
+    pass = score >= threshold;
+  } else {
+    pass = passed > verdicts.length / 2;
+  }
+
+  const summary =
+    aggregation === 'mean'
+      ? `Mean score ${score.toFixed(2)} (threshold ${threshold}), ${passed} of ${verdicts.length} judges passed`
+      : `${passed} of ${verdicts.length} judges passed (${aggregation})`;
+  const details = verdicts.map(
+    (v, i) => `- ${judges[i].id}: ${v.pass ? 'PASS' : 'FAIL'}${v.message ? ` - ${v.message}` : ''}`,
+  );
+  return {
+    pass,
+    score,
+    message: [summary, ...details].join('\n'),
+    outputs: { agreement, judgesPassed: passed },
+  };
+}
+
 function extractOutputAsString(output: TestOutput['output']): string | undefined {
   if (!output) {
     return undefined;
@@ -0,0 +1,50 @@
+import type { CellAssertionProvider, AssertionResult } from '$lib/types';
+import { detectPii, PII_CATEGORIES, type PiiMatch } from '$lib/utils/piiDetectors';
+import { z } from 'zod';
+import { wrapLegacyAssertion } from './legacyAssertion';
+
+const CONTEXT_CHARS = 30;
+
+const argsSchema = z.object({
+  categories: z.array(z.enum(PII_CATEGORIES)).min(1).optional(),
+  denylist: z.array(z.string()).optional(),
+});
+
+export function createNoPiiAssertion(args: unknown): CellAssertionProvider {
+  const parsedArgs = argsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid no-pii arguments');
+  }
+
+  const { categories, denylist } = parsedArgs.data;
+  return wrapLegacyAssertion({
+    run: function (output: string): AssertionResult {
+      const matches = detectPii(output, categories, denylist);
+      if (matches.length === 0) {
+        return { pass: true, outputs: { piiCount: 0 } };
+      }
+
+      const counts = new Map<string, number>();
+      for (const match of matches) {
+        counts.set(match.category, (counts.get(match.category) ?? 0) + 1);
+      }
+      return {
+        pass: false,
+        message: `Found ${Array.from(counts, ([category, count]) => `${category} (${count})`).join(', ')}`,
+        outputs: { piiCount: matches.length },
+        visuals: matches.map((match) => highlight(output, match)),
+      };
+    },
+  });
+}
+
+function highlight(text: string, { category, start, end }: PiiMatch): string {
+  const before = text.slice(Math.max(0, start - CONTEXT_CHARS), start);
+  const after = text.slice(end, end + CONTEXT_CHARS);
+  return (
+    `${category}: ` +
+    (start > CONTEXT_CHARS ? '…' : '') +
+    `${before}>>>${text.slice(start, end)}<<<${after}` +
+    (end + CONTEXT_CHARS < text.length ? '…' : '')
+  );
+}
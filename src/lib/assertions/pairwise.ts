@@ -0,0 +1,150 @@
+import { DEFAULT_LLM_ASSERTION_PROVIDER, PAIRWISE_PROMPT } from '$lib/prompts';
+import type { ProviderManager } from '$lib/providers/ProviderManager';
+import {
+  providerSchema,
+  type AssertionResult,
+  type ModelCache,
+  type NormalizedTestCase,
+  type ProviderOutputPart,
+  type RowAssertionProvider,
+  type TestOutput,
+} from '$lib/types';
+import { extractAllJsonObjects } from '$lib/utils/extractAllJson';
+import { HandlebarsPromptFormatter } from '$lib/utils/HandlebarsPromptFormatter';
+import { SimpleEnvironment } from '$lib/utils/SimpleEnvironment';
+import { z } from 'zod';
+
+const argsSchema = z.object({
+  criteria: z.string(),
+  prompt: z.string().optional(),
+  provider: providerSchema.optional(),
+  swap: z.boolean().optional(), // Also compare in the reverse order, to cancel position bias
+});
+
+const judgeResultSchema = z.object({
+  winner: z.enum(['A', 'B', 'tie']),
+  message: z.string().optional(),
+});
+
+export function createPairwiseAssertion(
+  args: unknown,
+  testVars: NormalizedTestCase['vars'],
+  providerManager: ProviderManager,
+  abortSignal: AbortSignal,
+  cache?: ModelCache,
+): RowAssertionProvider {
+  const parsedArgs = argsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid pairwise arguments');
+  }
+
+  const { criteria, prompt, provider: providerOptions, swap } = parsedArgs.data;
+  const provider =
+    typeof providerOptions === 'string'
+      ? { id: providerOptions, config: {} }
+      : (providerOptions ?? { id: DEFAULT_LLM_ASSERTION_PROVIDER, config: {} });
+  const model = providerManager.getProvider(provider.id, provider.config);
+  const env = new SimpleEnvironment({
+    model,
+    promptFormatter: new HandlebarsPromptFormatter(prompt ?? PAIRWISE_PROMPT),
+    cache,
+  });
+
+  // Returns the score for `a`: 1 if it wins, 0 if it loses, 0.5 for a tie
+  const compare = async (a: ProviderOutputPart[], b: ProviderOutputPart[]): Promise<number> => {
+    const generator = env.run({ ...testVars, a, b, criteria }, { abortSignal });
+    let next;
+    while (!next?.done) {
+      // Skip over the streaming responses.
+      next = await generator.next();
+    }
+    const result = next.value;
+    const judgeOutput = extractOutputAsString(result.output);
+    if (!judgeOutput) {
+      throw new Error(`Judge did not succeed: ${result.error ?? 'No error message'}`);
+    }
+    const parsed = judgeResultSchema.safeParse(extractAllJsonObjects(judgeOutput)[0]);
+    if (!parsed.success) {
+      throw new Error(`Invalid judge output: "${judgeOutput}"`);
+    }
+    return parsed.data.winner === 'A' ? 1 : parsed.data.winner === 'B' ? 0 : 0.5;
+  };
+
+  return {
+    type: 'row',
+    run: async function (results, _context): Promise<AssertionResult[]> {
+      const outputs = results.map((r) =>
+        r.output === undefined ? undefined : Array.isArray(r.output) ? r.output : [r.output],
+      );
+
+      const pairs: [number, number][] = [];
+      for (let i = 0; i < outputs.length; i++) {
+        for (let j = i + 1; j < outputs.length; j++) {
+          if (outputs[i] && outputs[j]) pairs.push([i, j]);
+        }
+      }
+
+      const comparisons: NonNullable<AssertionResult['comparisons']>[] = results.map(() => []);
+      const errors: string[] = [];
+      await Promise.all(
+        pairs.map(async ([i, j]) => {
+          const a = outputs[i] ?? [];
+          const b = outputs[j] ?? [];
+          try {
+            const [forward, reverse] = await Promise.all([
+              compare(a, b),
+              swap ? compare(b, a).then((score) => 1 - score) : undefined,
+            ]);
+            // If the orders disagree, it averages to a tie
+            const score = reverse === undefined ? forward : (forward + reverse) / 2;
+            comparisons[i].push({ opponent: j, score });
+            comparisons[j].push({ opponent: i, score: 1 - score });
+          } catch (e) {
+            errors.push(e instanceof Error ? e.message : String(e));
+          }
+        }),
+      );
+
+      return comparisons.map((cellComparisons, index) => {
+        if (!outputs[index]) {
+          return { pass: false, message: 'No output to compare' };
+        }
+        if (cellComparisons.length === 0) {
+          return {
+            pass: false,
+            message:
+              errors.length > 0 ? `Comparisons failed: ${errors[0]}` : 'Nothing to compare with',
+          };
+        }
+        cellComparisons.sort((a, b) => a.opponent - b.opponent);
+        const wins = cellComparisons.filter((c) => c.score > 0.5).length;
+        const losses = cellComparisons.filter((c) => c.score < 0.5).length;
+        const ties = cellComparisons.length - wins - losses;
+        const score = cellComparisons.reduce((sum, c) => sum + c.score, 0) / cellComparisons.length;
+        return {
+          pass: score >= 0.5,
+          score,
+          message: `Won ${wins}, lost ${losses}, tied ${ties} of ${cellComparisons.length} comparisons`,
+          outputs: { wins, losses, ties },
+          comparisons: cellComparisons,
+        };
+      });
+    },
+  };
+}
+
+function extractOutputAsString(output: TestOutput['output']): string | undefined {
+  if (!output) {
+    return undefined;
+  }
+  if (typeof output === 'string') {
+    return output;
+  }
+
+  // It's an array
+  const strings = output.filter((val): val is string => typeof val === 'string');
+  if (strings.length === 0) {
+    return undefined;
+  }
+  return strings.join(' '); // Just concatenate all strings
+}
@@ -3,6 +3,7 @@ import type { ProviderManager } from '$lib/providers/ProviderManager';
 import {
   providerSchema,
   type AssertionResult,
+  type ModelCache,
   type NormalizedTestCase,
   type RowAssertionProvider,
   type TestOutput,
@@ -22,6 +23,7 @@ export function createSelectBestAssertion(
   testVars: NormalizedTestCase['vars'],
   providerManager: ProviderManager,
   abortSignal: AbortSignal,
+  cache?: ModelCache,
 ): RowAssertionProvider {
   const parsedArgs = argsSchema.safeParse(args);
   if (!parsedArgs.success) {
@@ -37,6 +39,7 @@ export function createSelectBestAssertion(
   const env = new SimpleEnvironment({
     model,
     promptFormatter: new HandlebarsPromptFormatter(prompt ?? SELECT_BEST_PROMPT),
+    cache,
   });
   // TODO also populate placeholders in the rubric
   // TODO make rubric optional if prompt is provided
@@ -0,0 +1,80 @@
+import type { CellAssertionProvider, AssertionResult } from '$lib/types';
+import {
+  bleu,
+  levenshteinDistance,
+  levenshteinSimilarity,
+  rougeL,
+  tokenF1,
+} from '$lib/utils/textSimilarity';
+import { z } from 'zod';
+import { wrapLegacyAssertion } from './legacyAssertion';
+
+export type SimilarityMetric = 'levenshtein' | 'rouge-l' | 'bleu' | 'token-f1';
+
+const argsSchema = z.object({
+  value: z.string(),
+  threshold: z.number().min(0).max(1).optional(),
+  ignoreCase: z.boolean().optional(),
+});
+
+const DEFAULT_THRESHOLDS: Record<SimilarityMetric, number> = {
+  levenshtein: 0.8,
+  'rouge-l': 0.5,
+  bleu: 0.5,
+  'token-f1': 0.5,
+};
+
+export function createSimilarityAssertion(
+  metric: SimilarityMetric,
+  args: unknown,
+): CellAssertionProvider {
+  const parsedArgs = argsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error(`Invalid ${metric} arguments`);
+  }
+
+  const { value, ignoreCase } = parsedArgs.data;
+  const threshold = parsedArgs.data.threshold ?? DEFAULT_THRESHOLDS[metric];
+  return wrapLegacyAssertion({
+    run: function (output: string): AssertionResult {
+      const { score, outputs } = computeMetric(metric, output, value, ignoreCase ?? false);
+      const pass = score >= threshold;
+      return {
+        pass,
+        score,
+        outputs,
+        message: pass ? undefined : `${metric} score ${score.toFixed(3)} is below ${threshold}`,
+      };
+    },
+  });
+}
+
+function computeMetric(
+  metric: SimilarityMetric,
+  output: string,
+  expected: string,
+  ignoreCase: boolean,
+): { score: number; outputs: Record<string, number> } {
+  switch (metric) {
+    case 'levenshtein': {
+      // Token-based metrics always ignore case, edit distance is optional
+      const a = ignoreCase ? output.toLocaleLowerCase() : output;
+      const b = ignoreCase ? expected.toLocaleLowerCase() : expected;
+      const editDistance = levenshteinDistance(a, b);
+      const score = levenshteinSimilarity(a, b, editDistance);
+      return { score, outputs: { editDistance, similarity: score } };
+    }
+    case 'rouge-l': {
+      const score = rougeL(output, expected);
+      return { score, outputs: { rougeL: score } };
+    }
+    case 'bleu': {
+      const score = bleu(output, expected);
+      return { score, outputs: { bleu: score } };
+    }
+    case 'token-f1': {
+      const score = tokenF1(output, expected);
+      return { score, outputs: { tokenF1: score } };
+    }
+  }
+}
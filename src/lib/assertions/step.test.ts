@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest';
+import { wrapWithStep } from './step';
+import { createContainsAssertion } from './contains';
+import type { TestOutput } from '$lib/types';
+
+const history: TestOutput['history'] = [
+  { id: 'plan', rawPrompt: null, output: ['1. search'] },
+  { id: 'plan #2', rawPrompt: null, output: ['1. search 2. answer'] },
+  { id: 'answer', rawPrompt: null, output: ['Paris'] },
+];
+
+function createContext(testOutput: TestOutput) {
+  return { provider: { id: 'reverser:whatever' }, prompt: '{{ output }}', testOutput };
+}
+
+describe('step', () => {
+  test('selects a step by id', async () => {
+    const assertion = wrapWithStep(createContainsAssertion({ needle: 'search' }), 'plan');
+    const res = await assertion.run(['Paris'], createContext({ output: ['Paris'], history }));
+    expect(res.pass).toBe(true);
+  });
+  test('selects an iteration', async () => {
+    const assertion = wrapWithStep(createContainsAssertion({ needle: 'answer' }), 'plan#2');
+    const res = await assertion.run(['Paris'], createContext({ output: ['Paris'], history }));
+    expect(res.pass).toBe(true);
+
+    const first = wrapWithStep(createContainsAssertion({ needle: 'answer' }), 'plan #1');
+    const res2 = await first.run(['Paris'], createContext({ output: ['Paris'], history }));
+    expect(res2.pass).toBe(false);
+  });
+  test('fails for unknown steps', async () => {
+    const assertion = wrapWithStep(createContainsAssertion({ needle: 'x' }), 'review');
+    const res = await assertion.run(['Paris'], createContext({ output: ['Paris'], history }));
+    expect(res).toEqual({
+      pass: false,
+      message: 'Step "review" not found. Steps: plan, plan #2, answer',
+    });
+  });
+  test('checks all steps', async () => {
+    const assertion = wrapWithStep(createContainsAssertion({ needle: 'search' }), 'all');
+    const res = await assertion.run(['Paris'], createContext({ output: ['Paris'], history }));
+    expect(res.pass).toBe(false);
+    expect(res.message).toBe('answer: Does not contain: "search"');
+    expect(res.children).toHaveLength(3);
+  });
+  test('requires a pipeline', async () => {
+    const assertion = wrapWithStep(createContainsAssertion({ needle: 'x' }), 'plan');
+    const res = await assertion.run(['Paris'], createContext({ output: ['Paris'] }));
+    expect(res).toEqual({ pass: false, message: 'step requires a pipeline prompt' });
+  });
+});
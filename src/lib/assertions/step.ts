@@ -0,0 +1,80 @@
+import type {
+  AssertionProvider,
+  AssertionResult,
+  CellAssertionProvider,
+  TestOutput,
+} from '$lib/types';
+import { getAssertionScore } from '$lib/utils/scoreAssertions';
+
+type HistoryItem = NonNullable<TestOutput['history']>[number];
+
+/**
+ * Wraps an assertion so it checks the output of a pipeline step, rather than
+ * the final output. `step` is a step ID, optionally with an iteration suffix
+ * (`plan#2`), or `all` to check every step.
+ */
+export function wrapWithStep(provider: AssertionProvider, step: string): CellAssertionProvider {
+  if ('type' in provider) {
+    throw new Error('step cannot be used with row-level assertions');
+  }
+  const stepId = normalizeStepId(step);
+  return {
+    run: async (_output, context): Promise<AssertionResult> => {
+      const history = context.testOutput.history;
+      if (!history?.length) {
+        return { pass: false, message: 'step requires a pipeline prompt' };
+      }
+
+      const runStep = async (item: HistoryItem): Promise<AssertionResult> => {
+        if (item.error !== undefined) {
+          return { pass: false, message: `Step "${item.id}" failed: ${item.error}` };
+        }
+        if (item.output === undefined) {
+          return { pass: false, message: `Step "${item.id}" has no output` };
+        }
+        return provider.run(item.output, { ...context, testOutput: item });
+      };
+
+      if (stepId === 'all') {
+        const results: AssertionResult[] = [];
+        for (const item of history) {
+          const res = await runStep(item);
+          results.push(res.message ? { ...res, message: `${item.id}: ${res.message}` } : res);
+        }
+        const failed = results.filter((r) => !r.pass);
+        const visuals = results.flatMap((r) => r.visuals ?? []);
+        return {
+          pass: failed.length === 0,
+          score: results.map(getAssertionScore).reduce((a, b) => a + b, 0) / results.length,
+          message:
+            failed.length === 0
+              ? undefined
+              : failed.length === 1
+                ? failed[0].message
+                : `${failed.length} of ${results.length} steps failed`,
+          visuals: visuals.length > 0 ? visuals : undefined,
+          children: results,
+        };
+      }
+
+      const item = history.find((h) => h.id === stepId);
+      if (!item) {
+        return {
+          pass: false,
+          message: `Step "${step}" not found. Steps: ${history.map((h) => h.id).join(', ')}`,
+        };
+      }
+      return runStep(item);
+    },
+  };
+}
+
+/** History IDs are `id` for the first run of a step, then `id #2`, `id #3`... */
+function normalizeStepId(step: string): string {
+  const match = /^(.*?)\s*#(\d+)$/.exec(step.trim());
+  if (!match) {
+    return step.trim();
+  }
+  const [, id, count] = match;
+  return parseInt(count, 10) > 1 ? `${id} #${parseInt(count, 10)}` : id;
+}
@@ -0,0 +1,71 @@
+import { describe, test, expect } from 'vitest';
+import { createToolCallAssertion } from './toolCall';
+import type { FunctionCall, TestOutput } from '$lib/types';
+
+function call(name: string, args: unknown): FunctionCall {
+  return { type: 'function-call', name, args, meta: undefined };
+}
+
+const output = ['Let me look that up', call('search', { query: 'weather', limit: 3 })];
+const context = {
+  provider: { id: 'echo:whatever' },
+  prompt: '{{ request }}',
+  testOutput: { output },
+};
+
+describe('createToolCallAssertion', () => {
+  test('checks that a function was called', async function () {
+    const res1 = await createToolCallAssertion({ name: 'search' }).run(output, context);
+    expect(res1).toEqual({ pass: true, outputs: { callCount: 1 } });
+
+    const res2 = await createToolCallAssertion({ name: 'book' }).run(output, context);
+    expect(res2.pass).toBe(false);
+    expect(res2.message).toBe('book was not called. Called: search');
+  });
+  test('checks arguments against a partial object or schema', async function () {
+    const res1 = await createToolCallAssertion({
+      name: 'search',
+      args: { query: 'weather' },
+      argsSchema: { type: 'object', properties: { limit: { type: 'integer', maximum: 5 } } },
+    }).run(output, context);
+    expect(res1.pass).toBe(true);
+
+    const res2 = await createToolCallAssertion({
+      name: 'search',
+      args: { query: 'news' },
+    }).run(output, context);
+    expect(res2.message).toBe(
+      'No calls to search had matching arguments\n$.query: expected "news", got "weather"',
+    );
+  });
+  test('checks order and count across pipeline history', async function () {
+    const testOutput: TestOutput = {
+      output: ['Done'],
+      history: [
+        { id: 'plan', output: [call('search', {}), call('fetch', {})] },
+        { id: 'plan #2', output: [call('summarize', {})] },
+        { id: 'answer', output: ['Done'] },
+      ],
+    };
+    const ctx = { ...context, testOutput };
+
+    const res1 = await createToolCallAssertion({ order: ['search', 'summarize'] }).run(
+      ['Done'],
+      ctx,
+    );
+    expect(res1.pass).toBe(true);
+
+    const res2 = await createToolCallAssertion({
+      order: ['search', 'summarize'],
+      strictOrder: true,
+    }).run(['Done'], ctx);
+    expect(res2.pass).toBe(false);
+
+    const res3 = await createToolCallAssertion({ maxCount: 2 }).run(['Done'], ctx);
+    expect(res3).toEqual({
+      pass: false,
+      message: 'Expected at most 2 function calls, got 3',
+      outputs: { callCount: 3 },
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import type {
+  AssertionResult,
+  CellAssertionProvider,
+  FunctionCall,
+  ProviderOutput,
+  TestOutput,
+} from '$lib/types';
+import {
+  formatJsonSchemaErrors,
+  validateJsonSchema,
+  type JsonSchemaError,
+} from '$lib/utils/jsonSchema';
+import { z } from 'zod';
+
+const argsSchema = z
+  .object({
+    name: z.string().optional(),
+    args: z.record(z.string(), z.unknown()).optional(),
+    argsSchema: z.union([z.boolean(), z.record(z.string(), z.unknown())]).optional(),
+    order: z.array(z.string()).optional(),
+    strictOrder: z.boolean().optional(),
+    count: z.number().int().nonnegative().optional(),
+    minCount: z.number().int().nonnegative().optional(),
+    maxCount: z.number().int().nonnegative().optional(),
+  })
+  .refine(
+    (args) =>
+      args.name !== undefined ||
+      args.order !== undefined ||
+      args.count !== undefined ||
+      args.minCount !== undefined ||
+      args.maxCount !== undefined,
+    'One of name, order or count is required',
+  );
+
+export function createToolCallAssertion(args: unknown): CellAssertionProvider {
+  const parsedArgs = argsSchema.safeParse(args);
+  if (!parsedArgs.success) {
+    throw new Error('Invalid tool-call arguments');
+  }
+
+  const { name, args: expectedArgs, argsSchema: schema, order, strictOrder } = parsedArgs.data;
+  const { count, minCount, maxCount } = parsedArgs.data;
+  return {
+    run: function (output, { testOutput }): AssertionResult {
+      const allCalls = getFunctionCalls(output, testOutput);
+      const calls = name === undefined ? allCalls : allCalls.filter((c) => c.name === name);
+      const outputs = { callCount: calls.length };
+      const fail = (message: string): AssertionResult => ({ pass: false, message, outputs });
+      const label = name === undefined ? 'function calls' : `calls to ${name}`;
+
+      const hasCountCheck = count !== undefined || minCount !== undefined || maxCount !== undefined;
+      if (name !== undefined && !hasCountCheck && calls.length === 0) {
+        return fail(`${name} was not called. Called: ${formatNames(allCalls)}`);
+      }
+      if (count !== undefined && calls.length !== count) {
+        return fail(`Expected ${count} ${label}, got ${calls.length}`);
+      }
+      if (minCount !== undefined && calls.length < minCount) {
+        return fail(`Expected at least ${minCount} ${label}, got ${calls.length}`);
+      }
+      if (maxCount !== undefined && calls.length > maxCount) {
+        return fail(`Expected at most ${maxCount} ${label}, got ${calls.length}`);
+      }
+
+      if (expectedArgs !== undefined || schema !== undefined) {
+        const mismatches = calls.map((call) => {
+          const callArgs = parseArgs(call.args);
+          const errors = schema === undefined ? [] : validateJsonSchema(callArgs, schema);
+          if (expectedArgs !== undefined) {
+            errors.push(...matchPartial(callArgs, expectedArgs, '$'));
+          }
+          return errors;
+        });
+        if (!mismatches.some((errors) => errors.length === 0)) {
+          const details = mismatches[0] ? `\n${formatJsonSchemaErrors(mismatches[0])}` : '';
+          return fail(`No ${label} had matching arguments${details}`);
+        }
+      }
+
+      if (order !== undefined) {
+        const names = allCalls.map((c) => c.name);
+        const matches = strictOrder
+          ? names.length === order.length && names.every((n, i) => n === order[i])
+          : isSubsequence(order, names);
+        if (!matches) {
+          return fail(
+            `Expected calls in order: ${order.join(', ')}. Called: ${formatNames(allCalls)}`,
+          );
+        }
+      }
+
+      return { pass: true, outputs };
+    },
+  };
+}
+
+/**
+ * Returns every function call made, in order. For pipelines this includes
+ * every step in the history (the last of which is the final output).
+ */
+export function getFunctionCalls(output: ProviderOutput, testOutput: TestOutput): FunctionCall[] {
+  const outputs = testOutput.history?.length ? testOutput.history.map((h) => h.output) : [output];
+  return outputs.flatMap((o) =>
+    Array.isArray(o)
+      ? o.filter(
+          (part): part is FunctionCall =>
+            typeof part === 'object' && 'type' in part && part.type === 'function-call',
+        )
+      : [],
+  );
+}
+
+function parseArgs(args: unknown): unknown {
+  // Some providers encode arguments as a JSON string
+  if (typeof args === 'string') {
+    try {
+      return JSON.parse(args) as unknown;
+    } catch {
+      return args;
+    }
+  }
+  return args;
+}
+
+function matchPartial(actual: unknown, expected: unknown, path: string): JsonSchemaError[] {
+  if (typeof expected === 'object' && expected !== null) {
+    if (Array.isArray(expected)) {
+      if (!Array.isArray(actual) || actual.length !== expected.length) {
+        return [{ path, message: `expected ${JSON.stringify(expected)}` }];
+      }
+      return expected.flatMap((e, i) => matchPartial(actual[i], e, `${path}[${i}]`));
+    }
+    if (typeof actual !== 'object' || actual === null || Array.isArray(actual)) {
+      return [{ path, message: 'expected an object' }];
+    }
+    return Object.entries(expected).flatMap(([key, value]) =>
+      matchPartial((actual as Record<string, unknown>)[key], value, `${path}.${key}`),
+    );
+  }
+  if (actual !== expected) {
+    return [
+      { path, message: `expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}` },
+    ];
+  }
+  return [];
+}
+
+function isSubsequence(expected: string[], actual: string[]): boolean {
+  let index = 0;
+  for (const name of actual) {
+    if (name === expected[index]) index++;
+  }
+  return index === expected.length;
+}
+
+function formatNames(calls: FunctionCall[]): string {
+  return calls.length > 0 ? calls.map((c) => c.name).join(', ') : '(none)';
+}
@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'vitest';
+import { wrapWithTransform } from './transform';
+import { createContainsAssertion } from './contains';
+import { createEqualsAssertion } from './equals';
+import type { CellAssertionProvider, RowAssertionProvider } from '$lib/types';
+
+const DEFAULT_CONTEXT = {
+  provider: { id: 'reverser:whatever' },
+  prompt: '{{ output }}',
+  testOutput: {},
+};
+
+function transformed(provider: CellAssertionProvider, spec: string) {
+  return wrapWithTransform(provider, spec, {}) as CellAssertionProvider;
+}
+
+describe('transform', () => {
+  test('extracts a fenced code block', async () => {
+    const assertion = transformed(createEqualsAssertion({ value: 'x = 1\n' }), 'code-block');
+    const res = await assertion.run(
+      ['Here you go:\n```python\nx = 1\n```\nDone.'],
+      DEFAULT_CONTEXT,
+    );
+    expect(res).toEqual({ pass: true, transformedOutput: 'x = 1\n' });
+  });
+  test('fails when there is no code block', async () => {
+    const assertion = transformed(createContainsAssertion({ needle: 'x' }), 'code-block');
+    const res = await assertion.run(['x = 1'], DEFAULT_CONTEXT);
+    expect(res).toEqual({ pass: false, message: 'Error in transform: No code block found' });
+  });
+  test('selects a JSON field', async () => {
+    const assertion = transformed(createEqualsAssertion({ value: 'Paris' }), 'json:$.city.name');
+    const res = await assertion.run(['{"city": {"name": "Paris"}}'], DEFAULT_CONTEXT);
+    expect(res.pass).toBe(true);
+    expect(res.transformedOutput).toBe('Paris');
+  });
+  test('keeps only text parts', async () => {
+    const assertion = transformed(createEqualsAssertion({ value: 'answer' }), 'text-only');
+    const res = await assertion.run(
+      [{ type: 'meta', title: 'Thinking', icon: 'thinking', message: 'hmm' }, 'answer'],
+      DEFAULT_CONTEXT,
+    );
+    expect(res.pass).toBe(true);
+  });
+  test('transforms each output for row assertions', async () => {
+    const row: RowAssertionProvider = {
+      type: 'row',
+      run: (results) => results.map((r) => ({ pass: r.output === 'a' })),
+    };
+    const assertion = wrapWithTransform(row, 'trim', {}) as RowAssertionProvider;
+    const res = await assertion.run([{ output: [' a '] }, { output: ['b'] }], { prompts: [] });
+    expect(res).toEqual([
+      { pass: true, transformedOutput: 'a' },
+      { pass: false, transformedOutput: 'b' },
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+import { CodeReference, toCodeReference, type Executable } from '$lib/storage/CodeReference';
+import { FileReference } from '$lib/storage/FileReference';
+import type {
+  AssertionProvider,
+  AssertionResult,
+  CellAssertionProvider,
+  NormalizedTestCase,
+  ProviderOutput,
+  RowAssertionProvider,
+} from '$lib/types';
+import { findJson } from './isJson';
+import { selectPath } from '$lib/utils/selectPath';
+
+export type TransformSpec = string | CodeReference;
+type Transform = (
+  output: ProviderOutput,
+  context: Record<string, unknown>,
+) => Promise<ProviderOutput>;
+
+const BUILT_IN_TRANSFORMS: Record<string, (output: ProviderOutput) => ProviderOutput> = {
+  // Keep only the text parts
+  'text-only': (output) =>
+    typeof output === 'string' ? output : output.filter((p) => typeof p === 'string'),
+  // Remove thinking, search, function calls, etc. but keep files
+  'strip-meta': (output) =>
+    typeof output === 'string'
+      ? output
+      : output.filter((p) => typeof p === 'string' || p instanceof FileReference),
+  trim: (output) => outputToString(output).trim(),
+  'code-block': (output) => {
+    const match = /```[^\n`]*\n([\s\S]*?)```/.exec(outputToString(output));
+    if (!match) {
+      throw new Error('No code block found');
+    }
+    return match[1];
+  },
+  json: (output) => JSON.stringify(parseJson(output), null, 2),
+};
+
+/**
+ * Wraps an assertion so it checks the transformed output. The transformed
+ * value is recorded on the result so failures can be understood.
+ */
+export function wrapWithTransform(
+  provider: AssertionProvider,
+  spec: TransformSpec,
+  testVars: NormalizedTestCase['vars'],
+): AssertionProvider {
+  const transform = createTransform(spec);
+  if ('type' in provider) {
+    return {
+      type: 'row',
+      run: async (results, context): Promise<AssertionResult[]> => {
+        let transformed;
+        try {
+          transformed = await Promise.all(
+            results.map(async (r) => ({
+              ...r,
+              output:
+                r.output === undefined
+                  ? undefined
+                  : await transform(r.output, { vars: testVars, ...context, testOutput: r }),
+            })),
+          );
+        } catch (e) {
+          return Array(results.length).fill(transformError(e)) as AssertionResult[];
+        }
+        const assertionResults = await provider.run(transformed, context);
+        return assertionResults.map((res, i) => ({
+          ...res,
+          transformedOutput: describeOutput(transformed[i].output),
+        }));
+      },
+    } satisfies RowAssertionProvider;
+  }
+  return {
+    run: async (output, context): Promise<AssertionResult> => {
+      let transformed;
+      try {
+        transformed = await transform(output, { vars: testVars, ...context });
+      } catch (e) {
+        return transformError(e);
+      }
+      const res = await provider.run(transformed, context);
+      return { ...res, transformedOutput: describeOutput(transformed) };
+    },
+    destroy: provider.destroy,
+  } satisfies CellAssertionProvider;
+}
+
+function createTransform(spec: TransformSpec): Transform {
+  if (typeof spec === 'string') {
+    if (spec in BUILT_IN_TRANSFORMS) {
+      const fn = BUILT_IN_TRANSFORMS[spec];
+      return (output) => Promise.resolve(fn(output));
+    }
+    if (spec.startsWith('json:')) {
+      const path = spec.slice('json:'.length);
+      return (output) => {
+        const value = selectPath(parseJson(output), path);
+        return Promise.resolve(typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+      };
+    }
+  }
+
+  // Otherwise, it's code to run in the sandbox
+  let execute: Executable | undefined;
+  return async (output, context) => {
+    if (!execute) {
+      const code = await toCodeReference(spec);
+      execute = await code.bind();
+    }
+    return normalizeTransformResult(await execute(output, context));
+  };
+}
+
+function normalizeTransformResult(value: unknown): ProviderOutput {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) {
+    return value;
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+function parseJson(output: ProviderOutput): unknown {
+  const json = findJson(outputToString(output));
+  if (json.length === 0) {
+    throw new Error('No JSON found in output');
+  }
+  return json[0];
+}
+
+function outputToString(output: ProviderOutput): string {
+  if (typeof output === 'string') {
+    return output;
+  }
+  return output.filter((val): val is string => typeof val === 'string').join(' ');
+}
+
+function describeOutput(output: ProviderOutput | undefined): string | undefined {
+  if (output === undefined) {
+    return undefined;
+  }
+  if (typeof output === 'string') {
+    return output;
+  }
+  return output
+    .map((part) => {
+      if (typeof part === 'string') return part;
+      if (part instanceof FileReference) return `[${part.uri}]`;
+      return `[${part.type}]`;
+    })
+    .join('\n');
+}
+
+function transformError(e: unknown): AssertionResult {
+  return {
+    pass: false,
+    message: `Error in transform: ${e instanceof Error ? e.message : String(e)}`,
+  };
+}
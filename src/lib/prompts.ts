@@ -1,7 +1,7 @@
 export const DEFAULT_LLM_ASSERTION_PROVIDER = 'gemini:gemini-2.5-pro';
 
 export const LLM_RUBRIC_PROMPT = `
-You are grading output according to a user-specified rubric. If the statement in the rubric is true, then the output passes the test. You respond with a JSON object with this structure: {message: string; pass: boolean}.
+You are grading output according to a user-specified rubric. If the statement in the rubric is true, then the output passes the test. You respond with a JSON object with this structure: {message: string; pass: boolean; score: number}. The score is between 0 and 1, and shows how well the output meets the rubric.
 
 Examples:
 
@@ -11,7 +11,7 @@ Hello world
 <Rubric>
 Content contains a greeting
 </Rubric>
-{"message": "the content contains the word 'hello'", "pass": true}
+{"message": "the content contains the word 'hello'", "pass": true, "score": 1}
 
 <Output>
 Avast ye swabs, repel the invaders!
@@ -19,7 +19,7 @@ Avast ye swabs, repel the invaders!
 <Rubric>
 Does not speak like a pirate
 </Rubric>
-{"message": "'avast ye' is a common pirate term", "pass": false}
+{"message": "'avast ye' is a common pirate term", "pass": false, "score": 0.1}
 
 <Output>{{#each output}}
 {{ this }}
@@ -55,3 +55,65 @@ Here is the set of documents:
 </Document>
 {{/each}}
 `.trim();
+
+export const FACTUALITY_PROMPT = `
+You are comparing the factual content of a submitted answer with an expert answer. Ignore differences in style, grammar, or punctuation. Decide which of these categories describes the submitted answer:
+
+- "subset": it is a subset of the expert answer and fully consistent with it
+- "superset": it is a superset of the expert answer and fully consistent with it
+- "equivalent": it contains all the same details as the expert answer
+- "contradicts": it disagrees with the expert answer
+
+You respond with a JSON object with this structure: {message: string; category: "subset" | "superset" | "equivalent" | "contradicts"}.
+
+Example:
+
+<Expert>
+Paris is the capital of France.
+</Expert>
+<Submission>
+The capital of France is Paris, which is also its largest city.
+</Submission>
+{"message": "the submission agrees that Paris is the capital and adds that it is the largest city", "category": "superset"}
+
+<Expert>
+{{ expected }}
+</Expert>
+<Submission>{{#each output}}
+{{ this }}
+{{/each}}</Submission>
+`.trim();
+
+export const CLOSED_QA_PROMPT = `
+You are assessing a submitted answer to a question, using an expert answer as the reference. Only consider whether the submission answers the question correctly, ignoring style and any details that are not relevant to the question. Decide which of these categories describes the submitted answer:
+
+- "subset": it is correct, but only partly answers the question compared to the expert answer
+- "superset": it is correct, and includes the expert answer along with more information
+- "equivalent": it is correct, and gives the same answer as the expert answer
+- "contradicts": it gives a different or incorrect answer
+
+You respond with a JSON object with this structure: {message: string; category: "subset" | "superset" | "equivalent" | "contradicts"}.
+
+<Question>
+{{ question }}
+</Question>
+<Expert>
+{{ expected }}
+</Expert>
+<Submission>{{#each output}}
+{{ this }}
+{{/each}}</Submission>
+`.trim();
+
+export const PAIRWISE_PROMPT = `
+You are comparing two documents to decide which better fits the following criteria: {{criteria}}
+
+<Document id="A">
+{{#each a}}{{ this }}{{/each}}
+</Document>
+<Document id="B">
+{{#each b}}{{ this }}{{/each}}
+</Document>
+
+Respond with a JSON object with this structure: {message: string; winner: "A" | "B" | "tie"}. Only answer "tie" if neither document is better.
+`.trim();
@@ -0,0 +1,140 @@
+import { describe, test, expect } from 'vitest';
+import { ProviderManager } from './ProviderManager';
+import { createCodeProviderType } from './code';
+import { ReverserProvider } from './reverser';
+
+describe('ProviderManager', () => {
+  test('creates built-in providers', function () {
+    const mgr = new ProviderManager({});
+    expect(mgr.getProvider('reverser:test')).toBeInstanceOf(ReverserProvider);
+    expect(mgr.getProvider('echo:test').id).toBe('echo:test');
+  });
+  test('reports required env vars for every built-in provider', function () {
+    const mgr = new ProviderManager({});
+    for (const providerType of mgr.getProviderTypes()) {
+      expect(() => mgr.getRequiredEnvVars(`${providerType.prefix}:model`)).not.toThrow();
+    }
+    expect(mgr.getRequiredEnvVars('gemini:gemini-1.5-pro')).toEqual(['GEMINI_API_KEY']);
+    expect(mgr.getRequiredEnvVars('echo:test')).toEqual([]);
+  });
+  test('throws for unknown or invalid ids', function () {
+    const mgr = new ProviderManager({});
+    expect(() => mgr.getProvider('unknown:model')).toThrow('Unknown provider: unknown');
+    expect(() => mgr.getRequiredEnvVars('reverser')).toThrow('Invalid provider id: reverser');
+  });
+  test('checks env vars', function () {
+    expect(() => new ProviderManager({}).getProvider('openai:gpt-4o')).toThrow(
+      'OPENAI_API_KEY not found',
+    );
+    expect(
+      new ProviderManager({ OPENAI_API_KEY: 'key' }).getProvider('openai:gpt-4o').id,
+    ).toContain('gpt-4o');
+  });
+  test('ollama only needs the endpoint when it is not configured', function () {
+    const mgr = new ProviderManager({});
+    expect(mgr.getRequiredEnvVars('ollama:llama3')).toEqual(['OLLAMA_ENDPOINT']);
+    expect(
+      mgr.getRequiredEnvVars('ollama:llama3', { apiBaseUrl: 'http://localhost:11434' }),
+    ).toEqual([]);
+  });
+  test('validates config', function () {
+    const mgr = new ProviderManager({ OPENAI_API_KEY: 'key' });
+    expect(() => mgr.getProvider('openai:gpt-4o', { apiBaseUrl: 1 })).toThrow(
+      'Invalid config for openai:gpt-4o:\napiBaseUrl: Expected string, received number',
+    );
+  });
+  test('only passes responseSchema to providers that support it', function () {
+    const mgr = new ProviderManager({ OPENAI_API_KEY: 'key' });
+    const config = { responseSchema: { type: 'object' } };
+    expect(mgr.getProvider('openai:gpt-4o', config).id).toBe('openai:gpt-4o');
+    expect(() => mgr.getProvider('echo:test', config)).toThrow(
+      'echo:test does not support responseSchema',
+    );
+  });
+  test('overrides costs with pricing', function () {
+    const response = {
+      id: '1',
+      choices: [],
+      usage: { prompt_tokens: 1000, completion_tokens: 100, total_tokens: 1100 },
+    };
+    const mgr = new ProviderManager(
+      { OPENAI_API_KEY: 'key' },
+      { pricing: { 'openai:my-fine-tune*': { input: 1, output: 2 } } },
+    );
+    expect(mgr.getProvider('openai:my-fine-tune-v2').extractTokenUsage(response)).toMatchObject({
+      costDollars: 0.0012,
+    });
+    expect(
+      mgr
+        .getProvider('openai:my-fine-tune-v2', { pricing: { input: 0, output: 0 } })
+        .extractTokenUsage(response).costDollars,
+    ).toBe(0);
+    expect(mgr.getProvider('openai:unknown').extractTokenUsage(response).costDollars).toBe(
+      undefined,
+    );
+    expect(() => mgr.getProvider('openai:gpt-4o', { pricing: { input: 1 } })).toThrow(
+      'Invalid config for openai:gpt-4o:\npricing.output: Required',
+    );
+  });
+  test('shares rate limits between providers with the same id', function () {
+    const mgr = new ProviderManager({});
+    const first = mgr.getProvider('echo:test');
+    const second = mgr.getProvider('echo:test', { rateLimit: { maxConcurrent: 2 } });
+    expect(second.rateLimiter).toBe(first.rateLimiter);
+    expect(first.rateLimiter?.limits).toEqual({ maxConcurrent: 2 });
+    expect(mgr.getProvider('echo:other').rateLimiter).not.toBe(first.rateLimiter);
+    expect(mgr.getProvider('echo:test', { rateLimit: { maxConcurrent: 2 } }).rateLimiter).toBe(
+      first.rateLimiter,
+    );
+    expect(() => mgr.getProvider('echo:test', { rateLimit: { maxConcurrent: 3 } })).toThrow(
+      'Invalid config for echo:test:\nrateLimit: Another config for echo:test sets different limits',
+    );
+    expect(first.rateLimiter?.limits).toEqual({ maxConcurrent: 2 });
+    expect(() => mgr.getProvider('echo:test', { rateLimit: { maxConcurrent: 0 } })).toThrow(
+      'Invalid config for echo:test:\nrateLimit.maxConcurrent: Number must be greater than 0',
+    );
+  });
+  test('registers extra provider types', function () {
+    const mgr = new ProviderManager(
+      { MY_KEY: 'secret', OPENAI_API_KEY: 'other' },
+      {
+        providerTypes: [
+          createCodeProviderType('custom', {
+            code: 'function execute() { return "hi"; }',
+            env: ['MY_KEY'],
+            schema: { type: 'object', properties: { temperature: { type: 'number' } } },
+            description: 'My provider',
+          }),
+        ],
+      },
+    );
+    expect(mgr.getRequiredEnvVars('custom:model')).toEqual(['MY_KEY']);
+    expect(mgr.getProviderType('custom:model').description).toBe('My provider');
+    expect(mgr.getProvider('custom:model').id).toBe('custom:model');
+    expect(() => mgr.getProvider('custom:model', { temperature: 'hot' })).toThrow(
+      'Invalid config for custom:model:\n$.temperature: expected number',
+    );
+    expect(() => new ProviderManager({}).getProvider('custom:model')).toThrow();
+  });
+  test('creates js providers from file URIs', function () {
+    const mgr = new ProviderManager({});
+    expect(mgr.getRequiredEnvVars('js:file:///provider.ts')).toEqual([]);
+    expect(mgr.getProvider('js:file:///provider.ts').id).toBe('js:file:///provider.ts');
+    expect(() => mgr.getProvider('js:provider.ts')).toThrow(
+      'Invalid js provider, expected a file URI: provider.ts',
+    );
+  });
+  test('does not allow registering a prefix twice', function () {
+    expect(
+      () =>
+        new ProviderManager(
+          {},
+          {
+            providerTypes: [
+              createCodeProviderType('echo', { code: 'function execute() { return "hi"; }' }),
+            ],
+          },
+        ),
+    ).toThrow('Provider already registered: echo');
+  });
+});
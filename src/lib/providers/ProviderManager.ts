@@ -1,99 +1,164 @@
-import type { ModelProvider } from '$lib/types';
-import { GeminiProvider } from './gemini';
-import { OpenaiProvider, type OpenaiConfig } from './openai';
-import { ReverserProvider } from './reverser';
-import { ChromeProvider } from './chrome';
-import { OllamaProvider } from './ollama';
-import { WebLlm } from './web-llm';
-import { AnthropicProvider } from './anthropic';
-import { DalleProvider } from './dalle';
-import { ComfyuiProvider } from './comfyui';
-import { EchoProvider } from './echo';
-import { GeminiLiveProvider } from './gemini-live';
+import {
+  pricingSchema,
+  rateLimitSchema,
+  type ModelProvider,
+  type Pricing,
+  type Run,
+} from '$lib/types';
+import { RateLimiter } from '$lib/utils/rateLimiter';
+import type { ReadonlyFileStorage } from '$lib/types/storage';
+import type { z } from 'zod';
+import { findPricing, getCostFromPricing } from './pricing';
+import { builtinProviderTypes, getRequiredEnvVars, type ProviderType } from './registry';
+
+export interface ProviderManagerOptions {
+  // Registered in addition to the built-in provider types
+  providerTypes?: ProviderType[];
+  // Used to load code for `js:` providers
+  storage?: ReadonlyFileStorage;
+  // Overrides the built-in prices, keyed by provider id
+  pricing?: Record<string, Pricing>;
+  // Loads the saved runs for `replay:` providers
+  loadRuns?: () => Promise<Run[]>;
+}
 
 export class ProviderManager {
-  constructor(public env: Record<string, string>) {}
+  private providerTypes = new Map<string, ProviderType>();
+  private storage?: ReadonlyFileStorage;
+  private pricing: Record<string, Pricing>;
+  private loadRuns?: () => Promise<Run[]>;
+  private runs?: Promise<Run[]>;
+  // Shared by every provider with the same id
+  private rateLimiters = new Map<string, RateLimiter>();
 
-  getProvider(id: string, config: object = {}): ModelProvider {
-    // id is in the format providerId:modelName, for example gemini:gemini-1.5-pro-latest
-    const index = id.indexOf(':');
-    if (index === -1) {
-      throw new Error(`Invalid provider id: ${id}`);
+  constructor(
+    public env: Record<string, string>,
+    options: ProviderManagerOptions = {},
+  ) {
+    for (const providerType of [...builtinProviderTypes, ...(options.providerTypes ?? [])]) {
+      this.register(providerType);
     }
-    const providerId = id.slice(0, index);
-    const modelName = id.slice(index + 1);
+    this.storage = options.storage;
+    this.pricing = options.pricing ?? {};
+    this.loadRuns = options.loadRuns;
+  }
 
-    if (providerId === 'gemini') {
-      if (typeof this.env.GEMINI_API_KEY !== 'string') {
-        throw new Error('GEMINI_API_KEY not found');
-      }
-      return new GeminiProvider(modelName, this.env.GEMINI_API_KEY, config);
-    } else if (providerId === 'gemini-live') {
-      if (typeof this.env.GEMINI_API_KEY !== 'string') {
-        throw new Error('GEMINI_API_KEY not found');
-      }
-      return new GeminiLiveProvider(modelName, this.env.GEMINI_API_KEY, config);
-    } else if (providerId === 'openai') {
-      if (typeof this.env.OPENAI_API_KEY !== 'string') {
-        throw new Error('OPENAI_API_KEY not found');
-      }
-      return new OpenaiProvider(modelName, this.env.OPENAI_API_KEY, config);
-    } else if (providerId === 'dalle') {
-      if (typeof this.env.OPENAI_API_KEY !== 'string') {
-        throw new Error('OPENAI_API_KEY not found');
+  register(providerType: ProviderType) {
+    if (this.providerTypes.has(providerType.prefix)) {
+      throw new Error(`Provider already registered: ${providerType.prefix}`);
+    }
+    this.providerTypes.set(providerType.prefix, providerType);
+  }
+
+  getProviderTypes(): ProviderType[] {
+    return Array.from(this.providerTypes.values());
+  }
+
+  getProviderType(id: string): ProviderType {
+    return this.parseId(id).providerType;
+  }
+
+  getProvider(id: string, fullConfig: object = {}): ModelProvider {
+    const { providerType, modelName } = this.parseId(id);
+    // Pricing and rate limits apply to every provider, so they aren't passed on
+    const {
+      pricing: configPricing,
+      rateLimit: configRateLimit,
+      ...config
+    } = fullConfig as { pricing?: unknown; rateLimit?: unknown };
+
+    for (const envVar of getRequiredEnvVars(providerType, config)) {
+      if (typeof this.env[envVar] !== 'string') {
+        throw new Error(`${envVar} not found`);
       }
-      return new DalleProvider(modelName, this.env.OPENAI_API_KEY, config);
-    } else if (providerId === 'anthropic') {
-      if (typeof this.env.ANTHROPIC_API_KEY !== 'string') {
-        throw new Error('ANTHROPIC_API_KEY not found');
+    }
+    if (providerType.configSchema) {
+      const parsed = providerType.configSchema.safeParse(config);
+      if (!parsed.success) {
+        throw new Error(`Invalid config for ${id}:\n${formatIssues(parsed.error)}`);
       }
-      return new AnthropicProvider(modelName, this.env.ANTHROPIC_API_KEY, config);
-    } else if (providerId === 'reverser') {
-      return new ReverserProvider(modelName);
-    } else if (providerId === 'echo') {
-      return new EchoProvider(modelName);
-    } else if (providerId === 'chrome' && modelName === 'ai') {
-      return new ChromeProvider();
-    } else if (providerId === 'web-llm') {
-      return new WebLlm(modelName);
-    } else if (providerId === 'ollama') {
-      if ((config as OpenaiConfig).apiBaseUrl === undefined) {
-        if (typeof this.env.OLLAMA_ENDPOINT !== 'string') {
-          throw new Error('OLLAMA_ENDPOINT not found');
-        }
-        (config as OpenaiConfig).apiBaseUrl = this.env.OLLAMA_ENDPOINT;
+    }
+    const parsedPricing = pricingSchema.optional().safeParse(configPricing);
+    if (!parsedPricing.success) {
+      throw new Error(`Invalid config for ${id}:\n${formatIssues(parsedPricing.error, 'pricing')}`);
+    }
+    const pricing = parsedPricing.data ?? findPricing(this.pricing, id);
+    const rateLimit = rateLimitSchema.optional().safeParse(configRateLimit);
+    if (!rateLimit.success) {
+      throw new Error(`Invalid config for ${id}:\n${formatIssues(rateLimit.error, 'rateLimit')}`);
+    }
+    if ('responseSchema' in config && !providerType.supportsResponseSchema) {
+      throw new Error(`${id} does not support responseSchema`);
+    }
+
+    const provider = providerType.create(modelName, {
+      env: this.env,
+      config,
+      storage: this.storage,
+      loadRuns: () => this.getRuns(),
+    });
+    provider.rateLimiter = this.getRateLimiter(id);
+    if (rateLimit.data) {
+      // The limit applies to earlier providers with this id too, so it can only be set once
+      const { limits } = provider.rateLimiter;
+      if (Object.keys(limits).length === 0) {
+        provider.rateLimiter.limits = rateLimit.data;
+      } else if (JSON.stringify(limits) !== JSON.stringify(rateLimit.data)) {
+        throw new Error(
+          `Invalid config for ${id}:\nrateLimit: Another config for ${id} sets different limits`,
+        );
       }
-      return new OllamaProvider(modelName, 'no-key', config);
-    } else if (providerId === 'comfyui') {
-      return new ComfyuiProvider(modelName, config);
     }
-    throw new Error(`Unknown provider: ${providerId}`);
+    if (pricing) {
+      // Replaces the provider's built-in prices
+      const extractTokenUsage = provider.extractTokenUsage.bind(provider);
+      provider.extractTokenUsage = (response) => {
+        const usage = extractTokenUsage(response);
+        return { ...usage, costDollars: getCostFromPricing(usage, pricing, id) };
+      };
+    }
+    return provider;
+  }
+
+  // Only loaded once, when first needed
+  private getRuns(): Promise<Run[]> {
+    this.runs ??= this.loadRuns?.() ?? Promise.resolve([]);
+    return this.runs;
+  }
+
+  private getRateLimiter(id: string): RateLimiter {
+    let rateLimiter = this.rateLimiters.get(id);
+    if (!rateLimiter) {
+      rateLimiter = new RateLimiter();
+      this.rateLimiters.set(id, rateLimiter);
+    }
+    return rateLimiter;
+  }
+
+  getRequiredEnvVars(id: string, config: object = {}): string[] {
+    return getRequiredEnvVars(this.parseId(id).providerType, config);
   }
 
-  getRequiredEnvVars(id: string): string[] {
+  private parseId(id: string): { providerType: ProviderType; modelName: string } {
+    // id is in the format providerId:modelName, for example gemini:gemini-1.5-pro-latest
     const index = id.indexOf(':');
     if (index === -1) {
       throw new Error(`Invalid provider id: ${id}`);
     }
     const providerId = id.slice(0, index);
-
-    if (providerId === 'gemini' || providerId === 'gemini-live') {
-      return ['GEMINI_API_KEY'];
-    } else if (providerId === 'openai' || providerId === 'dalle') {
-      return ['OPENAI_API_KEY'];
-    } else if (providerId === 'anthropic') {
-      return ['ANTHROPIC_API_KEY'];
-    } else if (providerId === 'reverser') {
-      return [];
-    } else if (providerId === 'chrome') {
-      return [];
-    } else if (providerId === 'ollama') {
-      return ['OLLAMA_ENDPOINT'];
-    } else if (providerId === 'web-llm') {
-      return [];
-    } else if (providerId === 'comfyui') {
-      return [];
+    const providerType = this.providerTypes.get(providerId);
+    if (!providerType) {
+      throw new Error(`Unknown provider: ${providerId}`);
     }
-    throw new Error(`Unknown provider: ${providerId}`);
+    return { providerType, modelName: id.slice(index + 1) };
   }
 }
+
+function formatIssues(error: z.ZodError, prefix?: string): string {
+  return error.issues
+    .map(
+      (issue) =>
+        `${[prefix, ...issue.path].filter((p) => p !== undefined).join('.')}: ${issue.message}`,
+    )
+    .join('\n');
+}
@@ -0,0 +1,262 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { AnthropicProvider } from './anthropic';
+import type { ConversationPrompt } from '$lib/types';
+
+async function runProvider(provider: AnthropicProvider, conversation: ConversationPrompt) {
+  const { request, runModel } = await provider.run(conversation, {
+    abortSignal: new AbortController().signal,
+  });
+  const generator = runModel();
+  let next;
+  while (!(next = await generator.next()).done) {
+    // Drain the stream
+  }
+  return { request, response: next.value.response, session: next.value.session };
+}
+
+function streamOf(events: object[]): string {
+  return events.map((e) => `event: x\ndata: ${JSON.stringify(e)}\n\n`).join('');
+}
+
+describe('AnthropicProvider function calling', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('streams tool use and answers it with a tool result', async () => {
+    const body = streamOf([
+      {
+        type: 'message_start',
+        message: {
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          content: [],
+          model: 'claude-test',
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 10, output_tokens: 0 },
+        },
+      },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Checking' } },
+      { type: 'content_block_stop', index: 0 },
+      {
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', id: 'toolu_1', name: 'getWeather', input: {} },
+      },
+      {
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'input_json_delta', partial_json: '{"city":' },
+      },
+      {
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'input_json_delta', partial_json: '"Paris"}' },
+      },
+      { type: 'content_block_stop', index: 1 },
+      {
+        type: 'message_delta',
+        delta: { stop_reason: 'tool_use', stop_sequence: null },
+        usage: { output_tokens: 5 },
+      },
+      { type: 'message_stop' },
+    ]);
+    vi.stubGlobal('fetch', () => Promise.resolve(new Response(body, { status: 200 })));
+    const provider = new AnthropicProvider('claude-test', 'key', {
+      tools: [{ functionDeclarations: [{ name: 'getWeather' }] }],
+    });
+
+    const { request, response, session } = await runProvider(provider, [
+      { role: 'user', content: [{ text: 'Weather in Paris?' }] },
+    ]);
+    expect(request).toMatchObject({
+      tools: [{ name: 'getWeather', input_schema: { type: 'object', properties: {} } }],
+    });
+    expect(provider.extractOutput(response)).toEqual([
+      'Checking',
+      {
+        type: 'function-call',
+        name: 'getWeather',
+        args: { city: 'Paris' },
+        meta: { id: 'toolu_1' },
+      },
+    ]);
+
+    const { request: next } = await provider.run(
+      [
+        {
+          role: 'user',
+          content: [{ type: 'function-response', call: 'getWeather', response: 'Sunny' }],
+        },
+      ],
+      { session, abortSignal: new AbortController().signal },
+    );
+    expect(next.messages.at(-1)).toEqual({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'Sunny' }],
+    });
+  });
+});
+
+describe('AnthropicProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('streams thinking and reports cached tokens', async () => {
+    const body = streamOf([
+      {
+        type: 'message_start',
+        message: {
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          content: [],
+          model: 'claude-3-7-sonnet-latest',
+          stop_reason: null,
+          stop_sequence: null,
+          usage: {
+            input_tokens: 100,
+            output_tokens: 0,
+            cache_creation_input_tokens: 1000,
+            cache_read_input_tokens: 2000,
+          },
+        },
+      },
+      {
+        type: 'content_block_start',
+        index: 0,
+        content_block: { type: 'thinking', thinking: '', signature: '' },
+      },
+      { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Hmm' } },
+      {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'signature_delta', signature: 'sig' },
+      },
+      { type: 'content_block_stop', index: 0 },
+      {
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'redacted_thinking', data: 'x' },
+      },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'content_block_start', index: 2, content_block: { type: 'text', text: 'Done' } },
+      { type: 'content_block_stop', index: 2 },
+      {
+        type: 'message_delta',
+        delta: { stop_reason: 'end_turn', stop_sequence: null },
+        usage: { output_tokens: 10 },
+      },
+      { type: 'message_stop' },
+    ]);
+    vi.stubGlobal('fetch', () => Promise.resolve(new Response(body, { status: 200 })));
+    const provider = new AnthropicProvider('claude-3-7-sonnet-latest', 'key', {
+      max_tokens: 16000,
+      thinking: { type: 'enabled', budget_tokens: 8000 },
+    });
+
+    const { request, response, session } = await runProvider(provider, [
+      { role: 'user', content: [{ text: 'Think about it' }] },
+    ]);
+    expect(request).toMatchObject({
+      max_tokens: 16000,
+      thinking: { type: 'enabled', budget_tokens: 8000 },
+    });
+    expect(provider.extractOutput(response)).toEqual([
+      { type: 'meta', title: 'Thinking', icon: 'thinking', message: 'Hmm' },
+      { type: 'meta', title: 'Thinking', icon: 'thinking', message: '(redacted)', data: 'x' },
+      'Done',
+    ]);
+    expect(session.state).toContainEqual({
+      role: 'assistant',
+      content: [
+        { type: 'thinking', thinking: 'Hmm', signature: 'sig' },
+        { type: 'redacted_thinking', data: 'x' },
+        { type: 'text', text: 'Done' },
+      ],
+    });
+    const usage = provider.extractTokenUsage(response);
+    expect(usage).toMatchObject({
+      inputTokens: 3100,
+      outputTokens: 10,
+      totalTokens: 3110,
+      cachedInputTokens: 2000,
+      cacheWriteInputTokens: 1000,
+    });
+    // 100 input + 1000 * 1.25 write + 2000 * 0.1 read at $3/M, 10 output at $15/M
+    expect(usage.costDollars).toBeCloseTo((1550 * 3 + 10 * 15) / 1000000);
+  });
+});
+
+describe('AnthropicProvider responseSchema', () => {
+  const responseSchema = { type: 'object', properties: { answer: { type: 'string' } } };
+
+  test('rejects thinking, since the tool is forced', () => {
+    expect(
+      () =>
+        new AnthropicProvider('claude-test', 'key', {
+          responseSchema,
+          thinking: { type: 'enabled', budget_tokens: 2048 },
+        }),
+    ).toThrow(
+      "Invalid config for anthropic:claude-test:\nresponseSchema can't be used with thinking enabled",
+    );
+  });
+
+  test('forces a structured output tool', async () => {
+    const provider = new AnthropicProvider('claude-test', 'key', { responseSchema });
+    const { request } = await provider.run([{ role: 'user', content: [{ text: 'Hi' }] }], {
+      abortSignal: new AbortController().signal,
+    });
+    expect(request).toMatchObject({
+      tools: [{ name: 'structured_output', input_schema: responseSchema }],
+      tool_choice: { type: 'tool', name: 'structured_output' },
+    });
+
+    const output = provider.extractOutput({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      content: [
+        { type: 'tool_use', id: 'toolu_1', name: 'structured_output', input: { answer: '42' } },
+      ],
+      model: 'claude-test',
+      stop_reason: 'tool_use',
+      stop_sequence: null,
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+    expect(output).toEqual([
+      '{"answer":"42"}',
+      expect.objectContaining({ type: 'meta', data: { answer: '42' } }),
+    ]);
+  });
+
+  test('answers the structured output call when the session continues', async () => {
+    const provider = new AnthropicProvider('claude-test', 'key', { responseSchema });
+    const session = {
+      state: [
+        { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'structured_output', input: {} }],
+        },
+      ],
+    };
+    const { request } = await provider.run([{ role: 'user', content: [{ text: 'Again' }] }], {
+      session,
+      abortSignal: new AbortController().signal,
+    });
+    expect(request.messages.at(-1)).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'toolu_1', content: 'OK' },
+        { type: 'text', text: 'Again' },
+      ],
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import {
   normalizedProviderConfigSchema,
   type ConversationPrompt,
+  type ExtractedOutputPart,
   type ModelProvider,
   type PromptPart,
   type RunContext,
@@ -11,22 +12,67 @@ import { Semaphore } from '$lib/utils/semaphore';
 import { sse } from '$lib/utils/sse';
 import { z } from 'zod';
 import { CHROME_CONCURRENT_REQUEST_LIMIT_PER_DOMAIN } from './common';
-import { exponentialBackoff, shouldRetryHttpError, HttpError } from '$lib/utils/exponentialBackoff';
+import {
+  exponentialBackoff,
+  shouldRetryHttpError,
+  HttpError,
+  parseRetryAfter,
+} from '$lib/utils/exponentialBackoff';
+import {
+  convertFunctionDeclarations,
+  getCallId,
+  parseFunctionArgs,
+  stringifyFunctionResponse,
+  takePendingCall,
+  type PendingCall,
+} from './functionCalls';
+import { structuredOutputPart } from './structuredOutput';
 
 const ANTHROPIC_SEMAPHORE = new Semaphore(CHROME_CONCURRENT_REQUEST_LIMIT_PER_DOMAIN);
 
+// Anthropic has no JSON mode, so structured output is a forced call to this tool
+const STRUCTURED_OUTPUT_TOOL = 'structured_output';
+
+const textBlockSchema = z.object({ type: z.literal('text'), text: z.string() });
+const toolUseBlockSchema = z.object({
+  type: z.literal('tool_use'),
+  id: z.string(),
+  name: z.string(),
+  input: z.unknown(),
+});
+const thinkingBlockSchema = z.object({
+  type: z.literal('thinking'),
+  thinking: z.string(),
+  signature: z.string().optional(),
+});
+// Thinking flagged by safety systems is encrypted
+const redactedThinkingBlockSchema = z.object({
+  type: z.literal('redacted_thinking'),
+  data: z.string(),
+});
+const contentBlockSchema = z.discriminatedUnion('type', [
+  textBlockSchema,
+  toolUseBlockSchema,
+  thinkingBlockSchema,
+  redactedThinkingBlockSchema,
+]);
+
+const usageSchema = z.object({
+  input_tokens: z.number(),
+  output_tokens: z.number(),
+  cache_creation_input_tokens: z.number().nullish(),
+  cache_read_input_tokens: z.number().nullish(),
+});
+
 const anthropicMessageSchema = z.object({
   id: z.string(),
   type: z.literal('message'),
   role: z.literal('assistant'),
-  content: z.array(z.object({ type: z.literal('text'), text: z.string() })),
+  content: z.array(contentBlockSchema),
   model: z.string(),
   stop_reason: z.unknown(), // FIXME: What is this?
   stop_sequence: z.unknown(), // FIXME: What is this?
-  usage: z.object({
-    input_tokens: z.number(),
-    output_tokens: z.number(),
-  }),
+  usage: usageSchema,
 });
 type AnthropicMessage = z.infer<typeof anthropicMessageSchema>;
 
@@ -38,18 +84,30 @@ const streamedResponseSchema = z.union([
   z.object({
     type: z.literal('content_block_start'),
     index: z.number(),
-    content_block: z.object({
-      type: z.literal('text'),
-      text: z.string(),
-    }),
+    content_block: contentBlockSchema,
   }),
   z.object({
     type: z.literal('content_block_delta'),
     index: z.number(),
-    delta: z.object({
-      type: z.literal('text_delta'),
-      text: z.string(),
-    }),
+    delta: z.discriminatedUnion('type', [
+      z.object({
+        type: z.literal('text_delta'),
+        text: z.string(),
+      }),
+      // Tool use input is streamed as pieces of JSON
+      z.object({
+        type: z.literal('input_json_delta'),
+        partial_json: z.string(),
+      }),
+      z.object({
+        type: z.literal('thinking_delta'),
+        thinking: z.string(),
+      }),
+      z.object({
+        type: z.literal('signature_delta'),
+        signature: z.string(),
+      }),
+    ]),
   }),
   z.object({
     type: z.literal('content_block_stop'),
@@ -81,18 +139,62 @@ const errorSchema = z.object({
   }),
 });
 
+function isThinkingEnabled(request: object): boolean {
+  return (
+    'thinking' in request &&
+    typeof request.thinking === 'object' &&
+    request.thinking !== null &&
+    'type' in request.thinking &&
+    request.thinking.type === 'enabled'
+  );
+}
+
 export class AnthropicProvider implements ModelProvider {
   private request: object;
+  private structured: boolean;
   constructor(
     public model: string,
     public apiKey: string,
     config = {},
   ) {
-    const { mimeTypes, ...request } = normalizedProviderConfigSchema.parse(config);
+    const { mimeTypes, responseSchema, ...request } = normalizedProviderConfigSchema
+      .passthrough()
+      .parse(config);
     if (mimeTypes) {
       this.mimeTypes = mimeTypes;
     }
-    this.request = request;
+    // The structured output tool is forced, which Anthropic doesn't allow while thinking
+    if (responseSchema && isThinkingEnabled(request)) {
+      throw new Error(
+        `Invalid config for anthropic:${model}:\nresponseSchema can't be used with thinking enabled`,
+      );
+    }
+    const tools =
+      'tools' in request
+        ? convertFunctionDeclarations(request.tools, (declaration) => ({
+            name: declaration.name,
+            description: declaration.description,
+            input_schema: declaration.parameters ?? { type: 'object', properties: {} },
+          }))
+        : undefined;
+    this.request = {
+      ...request,
+      ...(tools !== undefined ? { tools } : {}),
+      ...(responseSchema
+        ? {
+            tools: [
+              ...(Array.isArray(tools) ? (tools as unknown[]) : []),
+              {
+                name: STRUCTURED_OUTPUT_TOOL,
+                description: 'Respond with structured output',
+                input_schema: responseSchema,
+              },
+            ],
+            tool_choice: { type: 'tool', name: STRUCTURED_OUTPUT_TOOL },
+          }
+        : {}),
+    };
+    this.structured = responseSchema !== undefined;
   }
 
   get id(): string {
@@ -109,11 +211,16 @@ export class AnthropicProvider implements ModelProvider {
     'image/jpeg',
     'image/webp',
     'image/gif',
+
+    // Document
+    'application/pdf',
   ];
 
   async run(conversation: ConversationPrompt, context: RunContext) {
     const sessionMessages = (context.session?.state ?? []) as Message[];
-    const newMessages = await conversationToAnthropic(conversation);
+    const pendingCalls = getPendingCalls(sessionMessages);
+    const newMessages = await conversationToAnthropic(conversation, pendingCalls);
+    answerStructuredOutputCalls(newMessages, pendingCalls);
     const messages = [...sessionMessages, ...newMessages];
     const systemContent = await conversationToSystemContent(conversation);
     const extensions: { system?: Part[] } = {};
@@ -123,10 +230,11 @@ export class AnthropicProvider implements ModelProvider {
 
     const request = {
       model: this.model,
+      // Anthropic requires max_tokens, and thinking budgets must fit within it
+      max_tokens: getMaxTokens(this.model),
       ...this.request,
       ...extensions,
       stream: true,
-      max_tokens: getMaxTokens(this.model), // Anthropic requires max_tokens
       messages,
     } as const;
 
@@ -158,12 +266,17 @@ export class AnthropicProvider implements ModelProvider {
                 throw new HttpError(
                   `Failed to run model: ${error.error.type}: ${error.error.message}`,
                   resp.status,
+                  parseRetryAfter(resp.headers),
                 );
               } catch (parseError) {
                 if (parseError instanceof HttpError) {
                   throw parseError;
                 }
-                throw new HttpError(`Failed to run model: ${resp.statusText}`, resp.status);
+                throw new HttpError(
+                  `Failed to run model: ${resp.statusText}`,
+                  resp.status,
+                  parseRetryAfter(resp.headers),
+                );
               }
             }
             return resp;
@@ -173,11 +286,12 @@ export class AnthropicProvider implements ModelProvider {
 
         const stream = resp.body;
         let message: AnthropicMessage | null = null;
+        const partialJson = new Map<number, string>();
         if (!stream) throw new Error(`Failed to run model: no response`);
         for await (const value of sse(resp)) {
           const resp = streamedResponseSchema.parse(JSON.parse(value));
           const text = extractDeltaOutput(resp);
-          message = applyStreamedResponse(message, resp);
+          message = applyStreamedResponse(message, resp, partialJson);
           yield text;
         }
         if (!message) throw new Error(`Failed to run model: no response`);
@@ -197,12 +311,12 @@ export class AnthropicProvider implements ModelProvider {
 
   private extractDeltaOutput(json: StreamedResponse): string {
     if (json.type === 'message_start') {
-      return json.message.content.map((part) => part.text).join('');
+      return getText(json.message.content);
     }
     if (json.type === 'content_block_start') {
-      return json.content_block.text;
+      return getText([json.content_block]);
     }
-    if (json.type === 'content_block_delta') {
+    if (json.type === 'content_block_delta' && json.delta.type === 'text_delta') {
       return json.delta.text;
     }
     return '';
@@ -211,6 +325,7 @@ export class AnthropicProvider implements ModelProvider {
   private applyStreamedResponse(
     message: AnthropicMessage | null,
     response: StreamedResponse,
+    partialJson: Map<number, string>,
   ): AnthropicMessage {
     if (message === null) {
       if (response.type === 'message_start') {
@@ -224,7 +339,27 @@ export class AnthropicProvider implements ModelProvider {
       message.content.push(response.content_block);
     }
     if (response.type === 'content_block_delta') {
-      message.content[response.index].text += response.delta.text;
+      const block = message.content[response.index];
+      if (response.delta.type === 'text_delta' && block.type === 'text') {
+        block.text += response.delta.text;
+      } else if (response.delta.type === 'thinking_delta' && block.type === 'thinking') {
+        block.thinking += response.delta.thinking;
+      } else if (response.delta.type === 'signature_delta' && block.type === 'thinking') {
+        // The signature must be sent back with the thinking in later turns
+        block.signature = (block.signature ?? '') + response.delta.signature;
+      } else if (response.delta.type === 'input_json_delta') {
+        partialJson.set(
+          response.index,
+          (partialJson.get(response.index) ?? '') + response.delta.partial_json,
+        );
+      }
+    }
+    if (response.type === 'content_block_stop') {
+      const block = message.content[response.index];
+      const json = partialJson.get(response.index);
+      if (block.type === 'tool_use' && json !== undefined) {
+        block.input = parseFunctionArgs(json);
+      }
     }
     if (response.type === 'message_delta') {
       message.stop_reason = response.delta.stop_reason;
@@ -234,9 +369,41 @@ export class AnthropicProvider implements ModelProvider {
     return message;
   }
 
-  extractOutput(response: unknown): string {
+  extractOutput(response: unknown): string | ExtractedOutputPart[] {
     const json = anthropicMessageSchema.parse(response);
-    return json.content.map((part) => part.text).join('');
+    if (json.content.every((block) => block.type === 'text')) {
+      return getText(json.content);
+    }
+    return json.content.flatMap((block): ExtractedOutputPart[] => {
+      switch (block.type) {
+        case 'text':
+          return [block.text];
+        case 'tool_use':
+          if (this.structured && block.name === STRUCTURED_OUTPUT_TOOL) {
+            return [JSON.stringify(block.input), structuredOutputPart(block.input)];
+          }
+          return [
+            {
+              type: 'function-call',
+              name: block.name,
+              args: block.input,
+              meta: { id: block.id },
+            },
+          ];
+        case 'thinking':
+          return [{ type: 'meta', title: 'Thinking', icon: 'thinking', message: block.thinking }];
+        case 'redacted_thinking':
+          return [
+            {
+              type: 'meta',
+              title: 'Thinking',
+              icon: 'thinking',
+              message: '(redacted)',
+              data: block.data,
+            },
+          ];
+      }
+    });
   }
 
   extractTokenUsage(response: unknown): TokenUsage {
@@ -246,16 +413,28 @@ export class AnthropicProvider implements ModelProvider {
     const usage = json.usage;
 
     const { input_tokens, output_tokens } = usage;
+    // Cached tokens aren't included in input_tokens
+    const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+    const cacheRead = usage.cache_read_input_tokens ?? 0;
+    const inputTokens = input_tokens + cacheWrite + cacheRead;
     return {
-      inputTokens: input_tokens,
+      inputTokens,
       outputTokens: output_tokens,
-      totalTokens: input_tokens + output_tokens,
-      costDollars: getCost(this.model, input_tokens, output_tokens),
+      totalTokens: inputTokens + output_tokens,
+      costDollars: getCost(this.model, input_tokens, output_tokens, cacheWrite, cacheRead),
+      cachedInputTokens: cacheRead,
+      cacheWriteInputTokens: cacheWrite,
     };
   }
 }
 
-function getCost(model: string, prompt: number, completion: number): number | undefined {
+function getCost(
+  model: string,
+  prompt: number,
+  completion: number,
+  cacheWrite = 0,
+  cacheRead = 0,
+): number | undefined {
   // As of July 18 2024
   let inputCostPerMillion: number, outputCostPerMillion: number;
   if (model.startsWith('claude-3-5-sonnet') || model.startsWith('claude-3-7-sonnet')) {
@@ -277,7 +456,9 @@ function getCost(model: string, prompt: number, completion: number): number | un
     return undefined;
   }
 
-  return (prompt * inputCostPerMillion + completion * outputCostPerMillion) / 1000000;
+  // Cache writes cost 25% more than input tokens, and reads 90% less
+  const cachedCost = (cacheWrite * 1.25 + cacheRead * 0.1) * inputCostPerMillion;
+  return (prompt * inputCostPerMillion + completion * outputCostPerMillion + cachedCost) / 1000000;
 }
 
 function getMaxTokens(model: string): number {
@@ -289,9 +470,18 @@ function getMaxTokens(model: string): number {
   return 4096;
 }
 
+function getText(content: z.infer<typeof contentBlockSchema>[]): string {
+  return content.map((block) => (block.type === 'text' ? block.text : '')).join('');
+}
+
 type Part =
   | { type: 'text'; text: string }
-  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'document'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'thinking'; thinking: string; signature?: string }
+  | { type: 'redacted_thinking'; data: string }
+  | { type: 'tool_use'; id: string; name: string; input?: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
 
 async function multiPartPromptToAnthropic(part: PromptPart): Promise<Part> {
   if ('text' in part) {
@@ -301,7 +491,7 @@ async function multiPartPromptToAnthropic(part: PromptPart): Promise<Part> {
     const firstComma = b64.indexOf(',');
 
     return {
-      type: 'image',
+      type: part.file.type === 'application/pdf' ? 'document' : 'image',
       source: {
         type: 'base64',
         media_type: part.file.type,
@@ -318,27 +508,52 @@ export interface Message {
   content: Part[];
 }
 
-async function conversationToAnthropic(conversation: ConversationPrompt): Promise<Message[]> {
-  const contents = await Promise.all(
-    conversation.map(async (part): Promise<Message | null> => {
-      if (part.role === 'user') {
-        return {
-          role: 'user',
-          content: await Promise.all(part.content.map(multiPartPromptToAnthropic)),
-        };
-      }
-      if (part.role === 'assistant') {
-        return {
-          role: 'assistant',
-          content: await Promise.all(part.content.map(multiPartPromptToAnthropic)),
-        };
+async function conversationToAnthropic(
+  conversation: ConversationPrompt,
+  pendingCalls: PendingCall[],
+): Promise<Message[]> {
+  const messages: Message[] = [];
+  for (const { role, content } of conversation) {
+    // Ignore system messages
+    if (role === 'system') continue;
+    const parts: Part[] = [];
+    for (const part of content) {
+      if ('type' in part && part.type === 'function-call') {
+        const id = getCallId(part.meta) ?? `toolu_${pendingCalls.length}`;
+        parts.push({ type: 'tool_use', id, name: part.name, input: part.args ?? {} });
+        pendingCalls.push({ id, name: part.name });
+      } else if ('type' in part) {
+        parts.push({
+          type: 'tool_result',
+          tool_use_id: takePendingCall(pendingCalls, part),
+          content: stringifyFunctionResponse(part.response),
+        });
+      } else {
+        parts.push(await multiPartPromptToAnthropic(part));
       }
+    }
+    messages.push({ role, content: parts });
+  }
+  return messages;
+}
 
-      // Ignore system messages
-      return null;
-    }),
-  );
-  return contents.filter((c): c is Message => c !== null);
+// Pipelines never answer the structured output call, but Anthropic requires a
+// result for every call before the session can continue
+function answerStructuredOutputCalls(messages: Message[], pendingCalls: PendingCall[]) {
+  const firstUserMessage = messages.find((m) => m.role === 'user');
+  const results = pendingCalls
+    .filter((call) => call.name === STRUCTURED_OUTPUT_TOOL)
+    .map((call): Part => ({ type: 'tool_result', tool_use_id: call.id, content: 'OK' }));
+  firstUserMessage?.content.unshift(...results);
+}
+
+// Calls from the session that haven't been answered yet
+function getPendingCalls(messages: Message[]): PendingCall[] {
+  const parts = messages.flatMap((m) => m.content);
+  const answered = new Set(parts.map((p) => (p.type === 'tool_result' ? p.tool_use_id : null)));
+  return parts
+    .flatMap((p) => (p.type === 'tool_use' && !answered.has(p.id) ? [p] : []))
+    .map((p) => ({ id: p.id, name: p.name }));
 }
 
 async function conversationToSystemContent(
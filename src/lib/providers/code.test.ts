@@ -0,0 +1,111 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { describe, expect, test } from 'vitest';
+import { CodeProvider } from './code';
+import type { CodeReference } from '$lib/storage/CodeReference';
+import type { StreamingExecutable } from '$lib/utils/CodeSandbox';
+import type { ConversationPrompt } from '$lib/types';
+
+// Stands in for code running in the sandbox
+function fakeCode(
+  execute: StreamingExecutable,
+  source = 'export function execute() {}',
+): () => Promise<CodeReference> {
+  return () =>
+    Promise.resolve({
+      file: new File([source], 'provider.js'),
+      bindStreaming: () => Promise.resolve(execute),
+    } as unknown as CodeReference);
+}
+
+async function runProvider(provider: CodeProvider) {
+  const { runModel } = await provider.run([{ role: 'user', content: [{ text: 'hello' }] }]);
+  const generator = runModel();
+  const deltas: string[] = [];
+  let next;
+  while (!(next = await generator.next()).done) {
+    if (typeof next.value === 'string' && next.value) deltas.push(next.value);
+  }
+  return { deltas, response: next.value.response };
+}
+
+const context = { model: 'test', config: {}, env: {} };
+
+describe('CodeProvider', () => {
+  test('returns the output and token usage', async () => {
+    const provider = new CodeProvider(
+      'js:file:///provider.js',
+      fakeCode(([conversation, ctx]) =>
+        Promise.resolve({
+          output: `${JSON.stringify(conversation)} ${(ctx as { model: string }).model}`,
+          tokenUsage: { inputTokens: 1 },
+        }),
+      ),
+      context,
+    );
+    const { response } = await runProvider(provider);
+    expect(provider.extractOutput(response)).toBe(
+      '[{"role":"user","content":[{"text":"hello"}]}] test',
+    );
+    expect(provider.extractTokenUsage(response)).toEqual({ inputTokens: 1 });
+  });
+
+  test('streams yielded values', async () => {
+    const provider = new CodeProvider(
+      'js:file:///provider.js',
+      fakeCode(async (_args, onYield) => {
+        for (const part of ['Hel', 'lo']) {
+          await Promise.resolve();
+          onYield?.(part);
+        }
+        return undefined;
+      }),
+      context,
+    );
+    const { deltas, response } = await runProvider(provider);
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(provider.extractOutput(response)).toEqual(['Hello']);
+  });
+
+  test('reports invalid yielded values', async () => {
+    const provider = new CodeProvider(
+      'js:file:///provider.js',
+      fakeCode(async (_args, onYield) => {
+        await Promise.resolve();
+        onYield?.('Hel');
+        onYield?.(42);
+        onYield?.('lo');
+        return undefined;
+      }),
+      context,
+    );
+    await expect(runProvider(provider)).rejects.toThrow(
+      'Invalid value yielded by test, expected a string or Blob: 42',
+    );
+  });
+
+  test('reports errors', async () => {
+    const provider = new CodeProvider(
+      'js:file:///provider.js',
+      fakeCode(() => Promise.reject(new Error('Oops'))),
+      context,
+    );
+    await expect(runProvider(provider)).rejects.toThrow('Oops');
+  });
+
+  test('includes the code in the request', async () => {
+    const conversation: ConversationPrompt = [{ role: 'user', content: [{ text: 'hello' }] }];
+    const run = async (source: string) => {
+      const execute = () => Promise.resolve('output');
+      const provider = new CodeProvider(
+        'js:file:///provider.js',
+        fakeCode(execute, source),
+        context,
+      );
+      return (await provider.run(conversation)).request;
+    };
+    const request = await run('export function execute() { return "a"; }');
+    expect(request).toMatchObject({ conversation, model: 'test', config: {} });
+    expect(await run('export function execute() { return "a"; }')).toEqual(request);
+    expect(await run('export function execute() { return "b"; }')).not.toEqual(request);
+  });
+});
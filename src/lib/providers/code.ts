@@ -0,0 +1,238 @@
+import { CodeReference, toCodeReference } from '$lib/storage/CodeReference';
+import { blobToFileReference } from '$lib/storage/dereferenceFilePaths';
+import { FileReference } from '$lib/storage/FileReference';
+import {
+  tokenUsageSchema,
+  type ConversationPrompt,
+  type ModelProvider,
+  type NormalizedProviderType,
+  type TokenUsage,
+} from '$lib/types';
+import type { ReadonlyFileStorage } from '$lib/types/storage';
+import type { StreamingExecutable } from '$lib/utils/CodeSandbox';
+import { generator } from '$lib/utils/generator';
+import { hashJson } from '$lib/utils/hashJson';
+import { formatJsonSchemaErrors, validateJsonSchema } from '$lib/utils/jsonSchema';
+import { fileToBase64 } from '$lib/utils/media';
+import {
+  fileUriToPath,
+  isValidFileUri,
+  joinPath,
+  pathIsRelative,
+  pathToFileUri,
+} from '$lib/utils/path';
+import { z } from 'zod';
+import type { ProviderType } from './registry';
+
+const partSchema = z.union([z.string(), z.instanceof(Blob)]);
+const outputSchema = z.union([z.string(), z.array(partSchema)]);
+const resultSchema = z.union([
+  outputSchema,
+  z.object({ output: outputSchema, tokenUsage: tokenUsageSchema.optional() }),
+  // Async generators may return nothing, the output is what they yielded
+  z.undefined(),
+]);
+
+const responseSchema = z.object({
+  output: z.union([z.string(), z.array(z.union([z.string(), z.instanceof(FileReference)]))]),
+  tokenUsage: tokenUsageSchema.optional(),
+});
+
+export interface CodeProviderContext {
+  model: string;
+  config: object;
+  env: Record<string, string>;
+}
+
+// Runs `execute(conversation, { model, config, env })` from user code in the sandbox
+export class CodeProvider implements ModelProvider {
+  private code: Promise<CodeReference> | undefined;
+  private execute: Promise<StreamingExecutable> | undefined;
+
+  constructor(
+    public readonly id: string,
+    private readonly loadCode: () => Promise<CodeReference>,
+    private readonly context: CodeProviderContext,
+  ) {}
+
+  mimeTypes = ['*/*'];
+
+  async run(conversation: ConversationPrompt) {
+    this.code ??= this.loadCode();
+    this.execute ??= this.code.then((code) => code.bindStreaming());
+    const execute = this.execute;
+    const context = this.context;
+    // The request is the cache key, so it includes the code and the file contents
+    const request = {
+      conversation: await Promise.all(
+        conversation.map(async ({ role, content }) => ({
+          role,
+          content: await Promise.all(
+            content.map(async (part) =>
+              'file' in part
+                ? {
+                    file: {
+                      name: part.file.name,
+                      type: part.file.type,
+                      base64: await fileToBase64(part.file),
+                    },
+                  }
+                : part,
+            ),
+          ),
+        })),
+      ),
+      model: context.model,
+      config: context.config,
+      // Only the entry file, not the modules it imports
+      codeHash: await hashJson(await (await this.code).file.text()),
+    };
+    return {
+      request,
+      runModel: async function* () {
+        yield '';
+        // If execute is an async generator, its values are streamed
+        const streamed: (string | Blob)[] = [];
+        const stream = generator<string, null>();
+        // Called from the sandbox's message handler, so errors are reported after the stream
+        let yieldError: Error | undefined;
+        const resultPromise = execute.then((fn) =>
+          fn([conversation, context], (value) => {
+            const parsed = partSchema.safeParse(value);
+            if (!parsed.success) {
+              yieldError ??= new Error(
+                `Invalid value yielded by ${context.model}, expected a string or Blob: ${JSON.stringify(value)}`,
+              );
+              return;
+            }
+            streamed.push(parsed.data);
+            if (typeof parsed.data === 'string') {
+              stream.yield(parsed.data);
+            }
+          }),
+        );
+        void resultPromise
+          .finally(() => {
+            stream.return(null);
+          })
+          .catch(() => {
+            // Handled below
+          });
+        for await (const delta of stream.generator) {
+          yield delta;
+        }
+        if (yieldError) {
+          throw yieldError;
+        }
+
+        const result = resultSchema.parse(await resultPromise);
+        const { output, tokenUsage } =
+          result === undefined || typeof result === 'string' || Array.isArray(result)
+            ? { output: result }
+            : result;
+        return {
+          response: {
+            output: await toStoredOutput(output ?? mergeStrings(streamed)),
+            tokenUsage,
+          },
+        };
+      },
+    };
+  }
+
+  extractOutput(response: unknown): string | (string | Blob)[] {
+    const { output } = responseSchema.parse(response);
+    if (typeof output === 'string') {
+      return output;
+    }
+    return output.map((part) => (part instanceof FileReference ? part.file : part));
+  }
+
+  extractTokenUsage(response: unknown): TokenUsage {
+    return responseSchema.parse(response).tokenUsage ?? {};
+  }
+}
+
+export function createCodeProviderType(
+  prefix: string,
+  providerType: NormalizedProviderType,
+): ProviderType {
+  const { code, env: envVars = [], schema, description } = providerType;
+  return {
+    prefix,
+    description,
+    requiredEnvVars: envVars,
+    supportsResponseSchema: true,
+    create(model, { env, config }) {
+      if (schema !== undefined) {
+        const errors = validateJsonSchema(config, schema);
+        if (errors.length > 0) {
+          throw new Error(
+            `Invalid config for ${prefix}:${model}:\n${formatJsonSchemaErrors(errors)}`,
+          );
+        }
+      }
+      // Only expose the declared env vars to the code, not every API key
+      const declaredEnv = Object.fromEntries(envVars.map((name) => [name, env[name]]));
+      return new CodeProvider(`${prefix}:${model}`, () => toCodeReference(code), {
+        model,
+        config,
+        env: declaredEnv,
+      });
+    },
+  };
+}
+
+export function createCodeProviderTypes(
+  providerTypes: Record<string, NormalizedProviderType> = {},
+): ProviderType[] {
+  return Object.entries(providerTypes).map(([prefix, providerType]) =>
+    createCodeProviderType(prefix, providerType),
+  );
+}
+
+// Files are stored as references, so the response can be cached
+async function toStoredOutput(output: z.infer<typeof outputSchema>) {
+  if (typeof output === 'string') {
+    return output;
+  }
+  return Promise.all(
+    output.map((part) => (part instanceof Blob ? blobToFileReference(part) : part)),
+  );
+}
+
+function mergeStrings(parts: (string | Blob)[]): (string | Blob)[] {
+  const merged: (string | Blob)[] = [];
+  for (const part of parts) {
+    const last = merged.at(-1);
+    if (typeof last === 'string' && typeof part === 'string') {
+      merged[merged.length - 1] = last + part;
+    } else {
+      merged.push(part);
+    }
+  }
+  return merged;
+}
+
+// For `js:file:///provider.ts`, the model name is the file to load
+export function createJsProvider(
+  uri: string,
+  config: object,
+  storage?: ReadonlyFileStorage,
+): CodeProvider {
+  if (!isValidFileUri(uri)) {
+    throw new Error(`Invalid js provider, expected a file URI: ${uri}`);
+  }
+  const loadCode = async () => {
+    if (!storage) {
+      throw new Error('js providers require file storage');
+    }
+    let path = fileUriToPath(uri);
+    if (pathIsRelative(path)) {
+      path = joinPath('/', path);
+    }
+    const fileUri = pathToFileUri(path);
+    return new CodeReference(fileUri, await storage.loadFile(fileUri), storage);
+  };
+  return new CodeProvider(`js:${uri}`, loadCode, { model: uri, config, env: {} });
+}
@@ -9,7 +9,7 @@ import {
 } from '$lib/types';
 import { z } from 'zod';
 
-const configSchema = normalizedProviderConfigSchema
+export const comfyuiConfigSchema = normalizedProviderConfigSchema
   .extend({
     apiBaseUrl: z.string().optional(),
   })
@@ -22,7 +22,7 @@ export class ComfyuiProvider implements ModelProvider {
     public model: string,
     public config = {},
   ) {
-    const { apiBaseUrl } = configSchema.parse(config);
+    const { apiBaseUrl } = comfyuiConfigSchema.parse(config);
     this.apiBaseUrl = apiBaseUrl ?? 'http://localhost:8188';
   }
 
@@ -33,13 +33,13 @@ const dalleResponseSchema = z.object({
     .optional(),
 });
 
-const configSchema = normalizedProviderConfigSchema
+export const dalleConfigSchema = normalizedProviderConfigSchema
   .extend({
     size: z.string().optional(),
     quality: z.string().optional(),
   })
   .passthrough();
-export type DalleConfig = z.infer<typeof configSchema>;
+export type DalleConfig = z.infer<typeof dalleConfigSchema>;
 
 export class DalleProvider implements ModelProvider {
   private request: Omit<DalleConfig, 'mimeTypes'>;
@@ -48,7 +48,7 @@ export class DalleProvider implements ModelProvider {
     public apiKey: string,
     config = {},
   ) {
-    const { mimeTypes: _mimeTypes, ...request } = configSchema.parse(config);
+    const { mimeTypes: _mimeTypes, ...request } = dalleConfigSchema.parse(config);
     this.request = request;
   }
 
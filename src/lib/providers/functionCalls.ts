@@ -0,0 +1,72 @@
+import type { FunctionResponse } from '$lib/types';
+import { z } from 'zod';
+
+const functionDeclarationSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  parameters: z.record(z.string(), z.unknown()).optional(),
+});
+export type FunctionDeclaration = z.infer<typeof functionDeclarationSchema>;
+
+const geminiToolSchema = z.object({
+  functionDeclarations: z.array(functionDeclarationSchema),
+});
+
+/**
+ * Converts Gemini-style `{ functionDeclarations: [...] }` tools with `convert`,
+ * so the same tools can be declared for every provider. Other tools are
+ * passed through unchanged.
+ */
+export function convertFunctionDeclarations(
+  tools: unknown,
+  convert: (declaration: FunctionDeclaration) => unknown,
+): unknown {
+  if (!Array.isArray(tools)) {
+    return tools;
+  }
+  return tools.flatMap((tool: unknown) => {
+    const parsed = geminiToolSchema.safeParse(tool);
+    return parsed.success ? parsed.data.functionDeclarations.map(convert) : [tool];
+  });
+}
+
+export interface PendingCall {
+  id: string;
+  name: string;
+}
+
+/**
+ * Pipelines only know the name of the function a response is for, but OpenAI
+ * and Anthropic need the id of the call. Calls are answered in order, so this
+ * takes the first pending call with the same name.
+ */
+export function takePendingCall(pending: PendingCall[], response: FunctionResponse): string {
+  const index = pending.findIndex((call) => call.name === response.call);
+  if (index === -1) {
+    throw new Error(`No function call found for response: ${response.call}`);
+  }
+  return pending.splice(index, 1)[0].id;
+}
+
+/** The id that OpenAI and Anthropic calls keep in their `meta`. */
+export function getCallId(meta: unknown): string | undefined {
+  if (typeof meta === 'object' && meta !== null && 'id' in meta && typeof meta.id === 'string') {
+    return meta.id;
+  }
+  return undefined;
+}
+
+export function parseFunctionArgs(args: string): unknown {
+  if (args.trim() === '') {
+    return {};
+  }
+  try {
+    return JSON.parse(args) as unknown;
+  } catch {
+    throw new Error(`Invalid function call arguments: ${args}`);
+  }
+}
+
+export function stringifyFunctionResponse(response: unknown): string {
+  return typeof response === 'string' ? response : JSON.stringify(response);
+}
@@ -14,7 +14,13 @@ import { z } from 'zod';
 import { blobToFileReference } from '$lib/storage/dereferenceFilePaths';
 import { Semaphore } from '$lib/utils/semaphore';
 import { CHROME_CONCURRENT_REQUEST_LIMIT_PER_DOMAIN } from './common';
-import { exponentialBackoff, shouldRetryHttpError, HttpError } from '$lib/utils/exponentialBackoff';
+import {
+  exponentialBackoff,
+  shouldRetryHttpError,
+  HttpError,
+  parseRetryAfter,
+} from '$lib/utils/exponentialBackoff';
+import { addStructuredOutput } from './structuredOutput';
 
 const GEMINI_SEMAPHORE = new Semaphore(CHROME_CONCURRENT_REQUEST_LIMIT_PER_DOMAIN);
 
@@ -77,6 +83,7 @@ export const requestSchema = z
         stopSequences: z.array(z.string()).optional(),
         responseMimeType: z.enum(['text/plain', 'application/json']).optional(),
         responseSchema: z.unknown().optional(), // TODO declare schema
+        responseJsonSchema: z.unknown().optional(),
         candidateCount: z.number().int().optional(),
         maxOutputTokens: z.number().int().optional(),
         temperature: z.number().optional(),
@@ -105,6 +112,9 @@ export const generateContentResponseSchema = z.object({
   usageMetadata: z.object({
     promptTokenCount: z.number().int(),
     cachedContentTokenCount: z.number().int().optional(),
+    promptTokensDetails: z
+      .array(z.object({ modality: z.string(), tokenCount: z.number().int().optional() }))
+      .optional(),
     candidatesTokenCount: z.number().int().optional(), // Only included in final message
     totalTokenCount: z.number().int(),
   }),
@@ -119,6 +129,7 @@ const errorSchema = z.object({
 });
 
 export class GeminiProvider implements ModelProvider {
+  private structured: boolean;
   constructor(
     public model: string,
     public apiKey: string,
@@ -128,6 +139,8 @@ export class GeminiProvider implements ModelProvider {
     if (mimeTypes) {
       this.mimeTypes = mimeTypes;
     }
+    this.structured = config.responseSchema !== undefined;
+    this.config = applyResponseSchema(config);
   }
 
   get id(): string {
@@ -210,12 +223,20 @@ export class GeminiProvider implements ModelProvider {
               try {
                 const json: unknown = await resp.json();
                 error = errorSchema.parse(json);
-                throw new HttpError(`Failed to run model: ${error.error.message}`, resp.status);
+                throw new HttpError(
+                  `Failed to run model: ${error.error.message}`,
+                  resp.status,
+                  parseRetryAfter(resp.headers),
+                );
               } catch (parseError) {
                 if (parseError instanceof HttpError) {
                   throw parseError;
                 }
-                throw new HttpError(`Failed to run model: ${resp.statusText}`, resp.status);
+                throw new HttpError(
+                  `Failed to run model: ${resp.statusText}`,
+                  resp.status,
+                  parseRetryAfter(resp.headers),
+                );
               }
             }
             return resp;
@@ -398,19 +419,32 @@ export class GeminiProvider implements ModelProvider {
       }
     }
 
-    return [...extractedParts, ...metaParts];
+    const outputParts =
+      this.structured && final ? addStructuredOutput(extractedParts) : extractedParts;
+    return [...outputParts, ...metaParts];
   }
 
   extractTokenUsage(response: unknown): TokenUsage {
     const json = generateContentResponseSchema.parse(response);
 
-    const { promptTokenCount, candidatesTokenCount, totalTokenCount } = json.usageMetadata;
+    const {
+      promptTokenCount,
+      candidatesTokenCount,
+      totalTokenCount,
+      cachedContentTokenCount,
+      promptTokensDetails,
+    } = json.usageMetadata;
+    const getModalityTokens = (modality: string) =>
+      promptTokensDetails?.find((detail) => detail.modality === modality)?.tokenCount;
 
     return {
       inputTokens: promptTokenCount,
       outputTokens: candidatesTokenCount,
       totalTokens: totalTokenCount,
       costDollars: getCost(this.model, promptTokenCount, candidatesTokenCount ?? 0),
+      cachedInputTokens: cachedContentTokenCount,
+      audioInputTokens: getModalityTokens('AUDIO'),
+      imageInputTokens: getModalityTokens('IMAGE'),
     };
   }
 }
@@ -538,3 +572,23 @@ function maybeWrapFunctionResponse(val: unknown): Record<string, unknown> {
   }
   return { result: val };
 }
+
+// Gemini's own `responseSchema` only supports a subset of OpenAPI, so send
+// the JSON Schema as `responseJsonSchema` instead
+function applyResponseSchema({
+  responseSchema,
+  ...config
+}: NormalizedProviderConfig): NormalizedProviderConfig {
+  if (!responseSchema) {
+    return config;
+  }
+  const { generationConfig } = config as { generationConfig?: object };
+  return {
+    ...config,
+    generationConfig: {
+      ...generationConfig,
+      responseMimeType: 'application/json',
+      responseJsonSchema: responseSchema,
+    },
+  } as NormalizedProviderConfig;
+}
@@ -0,0 +1,123 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { HttpProvider, getHttpEnvVars, renderBody } from './http';
+import type { ConversationPrompt } from '$lib/types';
+
+const conversation: ConversationPrompt = [{ role: 'user', content: [{ text: 'Hello "world"' }] }];
+
+async function runProvider(provider: HttpProvider) {
+  const { request, runModel } = await provider.run(conversation, {
+    abortSignal: new AbortController().signal,
+  });
+  const generator = runModel();
+  const deltas: string[] = [];
+  let next;
+  while (!(next = await generator.next()).done) {
+    if (typeof next.value === 'string' && next.value) deltas.push(next.value);
+  }
+  return { request, deltas, response: next.value.response };
+}
+
+describe('HttpProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('sends a templated request and extracts the output', async () => {
+    const fetchMock = vi.fn(() =>
+      Promise.resolve(
+        new Response(JSON.stringify({ result: { text: 'Hi!' }, usage: { in: 3, out: 2 } }), {
+          status: 200,
+        }),
+      ),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = new HttpProvider(
+      'my-service',
+      { API_KEY: 'secret', URL_KEY: 'url-secret', OTHER: 'x' },
+      {
+        url: 'https://example.com/generate?key={{env.URL_KEY}}',
+        headers: { Authorization: 'Bearer {{env.API_KEY}}' },
+        body: '{"model": "{{model}}", "input": {{json prompt}} }',
+        output: '$.result.text',
+        tokenUsage: { inputTokens: '$.usage.in', outputTokens: '$.usage.out' },
+      },
+    );
+
+    const { request, response } = await runProvider(provider);
+    // The request is the cache key, so it leaves out the rendered env vars
+    expect(request).toEqual({
+      url: 'https://example.com/generate?key={{env.URL_KEY}}',
+      method: 'POST',
+      headers: { Authorization: 'Bearer {{env.API_KEY}}' },
+      body: '{"model": "{{model}}", "input": {{json prompt}} }',
+      messages: [{ role: 'user', content: 'Hello "world"', files: [] }],
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://example.com/generate?key=url-secret',
+      expect.objectContaining({
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' },
+        body: JSON.stringify({ model: 'my-service', input: 'Hello "world"' }),
+      }),
+    );
+    expect(provider.extractOutput(response)).toBe('Hi!');
+    expect(provider.extractTokenUsage(response)).toEqual({ inputTokens: 3, outputTokens: 2 });
+  });
+
+  test('streams server-sent events', async () => {
+    const events = [{ delta: 'Hel' }, { delta: 'lo' }, { usage: { total: 5 } }];
+    const body = events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n';
+    vi.stubGlobal('fetch', () => Promise.resolve(new Response(body, { status: 200 })));
+    const provider = new HttpProvider(
+      'streaming',
+      {},
+      {
+        url: 'https://example.com/stream',
+        stream: true,
+        streamOutput: '$.delta',
+        tokenUsage: { totalTokens: '$.usage.total' },
+      },
+    );
+
+    const { deltas, response } = await runProvider(provider);
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(provider.extractOutput(response)).toBe('Hello');
+    expect(provider.extractTokenUsage(response)).toEqual({ totalTokens: 5 });
+  });
+
+  test('reports HTTP errors', async () => {
+    vi.stubGlobal('fetch', () =>
+      Promise.resolve(new Response('bad input', { status: 400, statusText: 'Bad Request' })),
+    );
+    const provider = new HttpProvider('errors', {}, { url: 'https://example.com' });
+    await expect(runProvider(provider)).rejects.toThrow(
+      'Failed to run model: 400 Bad Request: bad input',
+    );
+  });
+});
+
+describe('getHttpEnvVars', () => {
+  test('finds env vars in the url, headers and body', () => {
+    expect(
+      getHttpEnvVars({
+        url: 'https://example.com/?key={{env.URL_KEY}}',
+        headers: { 'X-Key': '{{ env.HEADER_KEY }}' },
+        body: { token: '{{{env.BODY_KEY}}}', again: '{{env.URL_KEY}}' },
+      }),
+    ).toEqual(['URL_KEY', 'HEADER_KEY', 'BODY_KEY']);
+  });
+});
+
+describe('renderBody', () => {
+  test('templates the strings in object bodies', () => {
+    expect(renderBody({ input: '{{prompt}}', n: 1 }, { prompt: 'Say "hi"' })).toEqual({
+      input: 'Say "hi"',
+      n: 1,
+    });
+  });
+  test('rejects invalid JSON', () => {
+    expect(() => renderBody('{"input": {{prompt}} }', { prompt: 'hi' })).toThrow(
+      'Request body is not valid JSON: {"input": hi }',
+    );
+  });
+});
@@ -0,0 +1,303 @@
+import { toCodeReference, type Executable } from '$lib/storage/CodeReference';
+import {
+  normalizedProviderConfigSchema,
+  type ConversationPrompt,
+  type ModelProvider,
+  type RunContext,
+  type TokenUsage,
+} from '$lib/types';
+import {
+  exponentialBackoff,
+  HttpError,
+  shouldRetryHttpError,
+  parseRetryAfter,
+} from '$lib/utils/exponentialBackoff';
+import { fileToBase64 } from '$lib/utils/media';
+import { selectPath } from '$lib/utils/selectPath';
+import { Semaphore } from '$lib/utils/semaphore';
+import { sse } from '$lib/utils/sse';
+import Handlebars from 'handlebars';
+import { z } from 'zod';
+import { CHROME_CONCURRENT_REQUEST_LIMIT_PER_DOMAIN } from './common';
+
+const TOKEN_USAGE_KEYS = [
+  'inputTokens',
+  'outputTokens',
+  'totalTokens',
+  'costDollars',
+  'cachedInputTokens',
+  'cacheWriteInputTokens',
+  'audioInputTokens',
+  'imageInputTokens',
+] as const;
+
+export const httpConfigSchema = normalizedProviderConfigSchema
+  .extend({
+    url: z.string(),
+    method: z.string().optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+    // A Handlebars template that renders JSON, or an object whose strings are templates
+    body: z.union([z.string(), z.record(z.string(), z.unknown())]).optional(),
+    // A path such as `$.choices[0].message.content`, or a JS expression using `response`
+    output: z.string().optional(),
+    tokenUsage: z.record(z.enum(TOKEN_USAGE_KEYS), z.string()).optional(),
+    stream: z.boolean().optional(),
+    // Extracts the text delta from each server-sent event, defaults to `output`
+    streamOutput: z.string().optional(),
+  })
+  .strict();
+export type HttpConfig = z.infer<typeof httpConfigSchema>;
+
+const responseSchema = z.object({
+  body: z.unknown(),
+  output: z.string(),
+  tokenUsage: z.record(z.enum(TOKEN_USAGE_KEYS), z.number()),
+});
+
+// Note the space before the closing brace, since `}}}` closes a triple-stash
+const DEFAULT_BODY = '{"messages": {{json messages}} }';
+
+// One semaphore per host, since browsers limit the connections per domain
+const semaphores = new Map<string, Semaphore>();
+function getSemaphore(url: string): Semaphore {
+  const host = new URL(url).host;
+  let semaphore = semaphores.get(host);
+  if (!semaphore) {
+    semaphore = new Semaphore(CHROME_CONCURRENT_REQUEST_LIMIT_PER_DOMAIN);
+    semaphores.set(host, semaphore);
+  }
+  return semaphore;
+}
+
+/** Env vars referenced as `{{env.NAME}}` in the url, headers or body. */
+export function getHttpEnvVars(config: object): string[] {
+  const parsed = httpConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    return [];
+  }
+  const { url, headers, body } = parsed.data;
+  const text = JSON.stringify({ url, headers, body });
+  const names = Array.from(text.matchAll(/\{\{\{?\s*env\.([A-Za-z_][A-Za-z0-9_]*)/g), (m) => m[1]);
+  return Array.from(new Set(names));
+}
+
+export class HttpProvider implements ModelProvider {
+  private config: HttpConfig;
+  private env: Record<string, string>;
+  private extractOutputValue: Extractor;
+  private extractDelta: Extractor;
+  private tokenUsageExtractors: [keyof TokenUsage, Extractor][];
+
+  constructor(
+    public model: string,
+    env: Record<string, string>,
+    config = {},
+  ) {
+    this.config = httpConfigSchema.parse(config);
+    if (this.config.mimeTypes) {
+      this.mimeTypes = this.config.mimeTypes;
+    }
+    // Only the referenced env vars are available to the templates
+    this.env = Object.fromEntries(getHttpEnvVars(this.config).map((name) => [name, env[name]]));
+    this.extractOutputValue = createExtractor(this.config.output);
+    this.extractDelta = createExtractor(this.config.streamOutput ?? this.config.output);
+    this.tokenUsageExtractors = Object.entries(this.config.tokenUsage ?? {}).map(([key, spec]) => [
+      key as keyof TokenUsage,
+      createExtractor(spec),
+    ]);
+  }
+
+  get id(): string {
+    return `http:${this.model}`;
+  }
+
+  get requestSemaphore(): Semaphore {
+    return getSemaphore(this.config.url);
+  }
+
+  mimeTypes = ['*/*'];
+
+  async run(conversation: ConversationPrompt, context: RunContext) {
+    const messages = await Promise.all(
+      conversation.map(async ({ role, content }) => ({
+        role,
+        content: content
+          .filter((part) => 'text' in part)
+          .map((part) => part.text)
+          .join(''),
+        files: await Promise.all(
+          content
+            .filter((part) => 'file' in part)
+            .map(async ({ file }) => ({
+              name: file.name,
+              type: file.type,
+              base64: await fileToBase64(file),
+            })),
+        ),
+      })),
+    );
+    const vars = {
+      model: this.model,
+      messages,
+      prompt: messages.filter((m) => m.role === 'user').at(-1)?.content ?? '',
+      env: this.env,
+    };
+
+    const { url, method = 'POST', headers = {}, body = DEFAULT_BODY, stream } = this.config;
+    const hasBody = method !== 'GET' && method !== 'HEAD';
+    // The request is saved and used as the cache key, so it has the templates
+    // instead of the rendered values, which may include env vars
+    const request = { url, method, headers, body: hasBody ? body : undefined, messages };
+    const renderedUrl = renderTemplate(url, vars);
+    const renderedBody = hasBody ? renderBody(body, vars) : undefined;
+    const renderedHeaders: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...Object.fromEntries(
+        Object.entries(headers).map(([key, value]) => [key, renderTemplate(value, vars)]),
+      ),
+    };
+
+    const { extractOutputValue, extractDelta, tokenUsageExtractors } = this;
+    const extractTokenUsage = async (body: unknown) => {
+      const usage: Record<string, number> = {};
+      for (const [key, extractor] of tokenUsageExtractors) {
+        try {
+          const value = await extractor(body);
+          if (typeof value === 'number') {
+            usage[key] = value;
+          }
+        } catch {
+          // Missing usage isn't an error
+        }
+      }
+      return usage;
+    };
+
+    return {
+      request,
+      runModel: async function* () {
+        yield '';
+        const resp = await exponentialBackoff(
+          async () => {
+            const resp = await fetch(renderedUrl, {
+              method,
+              headers: renderedHeaders,
+              body: renderedBody === undefined ? undefined : JSON.stringify(renderedBody),
+              signal: context.abortSignal,
+            });
+            if (!resp.ok) {
+              const text = await resp.text().catch(() => '');
+              throw new HttpError(
+                `Failed to run model: ${resp.status} ${resp.statusText}${text ? `: ${text.slice(0, 500)}` : ''}`,
+                resp.status,
+                parseRetryAfter(resp.headers),
+              );
+            }
+            return resp;
+          },
+          { shouldRetry: shouldRetryHttpError },
+        );
+
+        if (stream) {
+          let output = '';
+          let lastEvent: unknown;
+          for await (const value of sse(resp)) {
+            lastEvent = parseBody(value);
+            // Events without a delta, such as a final usage event, are skipped
+            const delta = stringifyOutput(await extractDelta(lastEvent).catch(() => undefined));
+            output += delta;
+            yield delta;
+          }
+          return {
+            response: { body: lastEvent, output, tokenUsage: await extractTokenUsage(lastEvent) },
+          };
+        }
+
+        const responseBody = parseBody(await resp.text());
+        return {
+          response: {
+            body: responseBody,
+            output: stringifyOutput(await extractOutputValue(responseBody)),
+            tokenUsage: await extractTokenUsage(responseBody),
+          },
+        };
+      },
+    };
+  }
+
+  extractOutput(response: unknown): string {
+    return responseSchema.parse(response).output;
+  }
+
+  extractTokenUsage(response: unknown): TokenUsage {
+    return responseSchema.parse(response).tokenUsage;
+  }
+}
+
+type Extractor = (value: unknown) => Promise<unknown>;
+
+function createExtractor(spec: string | undefined): Extractor {
+  if (spec === undefined) {
+    return (value) => Promise.resolve(value);
+  }
+  if (spec.startsWith('$')) {
+    // Deferred, so a missing path rejects instead of throwing
+    return (value) => Promise.resolve().then(() => selectPath(value, spec));
+  }
+  // Otherwise, it's an expression to run in the sandbox
+  let execute: Promise<Executable> | undefined;
+  return async (value) => {
+    execute ??= toCodeReference(`function execute(response) {\n  return (${spec});\n}`).then(
+      (code) => code.bind(),
+    );
+    return (await execute)(value);
+  };
+}
+
+const templateOptions = {
+  helpers: { json: (value: unknown) => JSON.stringify(value) },
+};
+
+function renderTemplate(template: string, vars: object): string {
+  return Handlebars.compile(template, { noEscape: true })(vars, templateOptions);
+}
+
+export function renderBody(body: string | Record<string, unknown>, vars: object): unknown {
+  if (typeof body !== 'string') {
+    return mapStrings(body, (value) => renderTemplate(value, vars));
+  }
+  const rendered = renderTemplate(body, vars);
+  try {
+    return JSON.parse(rendered) as unknown;
+  } catch {
+    throw new Error(`Request body is not valid JSON: ${rendered}`);
+  }
+}
+
+function mapStrings(value: unknown, fn: (value: string) => string): unknown {
+  if (typeof value === 'string') {
+    return fn(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => mapStrings(v, fn));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+  }
+  return value;
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+function stringifyOutput(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
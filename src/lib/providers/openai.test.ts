@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/unbound-method */
 import { describe, expect, test } from 'vitest';
 import { OpenaiProvider } from './openai';
 
@@ -25,3 +24,139 @@ describe('OpenaiProvider', () => {
     expect(provider.extractOutput(undefinedMessage)).toEqual(['']);
   });
 });
+
+describe('OpenaiProvider function calling', () => {
+  test('extractOutput returns tool calls', () => {
+    const response = {
+      id: '1',
+      choices: [
+        {
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'getWeather', arguments: '{"city":"Paris"}' },
+              },
+            ],
+          },
+        },
+      ],
+    };
+    expect(new OpenaiProvider('gpt-test', 'test-key').extractOutput(response)).toEqual([
+      {
+        type: 'function-call',
+        name: 'getWeather',
+        args: { city: 'Paris' },
+        meta: { id: 'call_1' },
+      },
+    ]);
+  });
+
+  test('converts function declarations and responses', async () => {
+    const provider = new OpenaiProvider('gpt-test', 'test-key', {
+      tools: [{ functionDeclarations: [{ name: 'getWeather', description: 'Weather' }] }],
+    });
+    const session = {
+      state: [
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'getWeather', arguments: '{}' } },
+          ],
+        },
+      ],
+    };
+    const { request } = await provider.run(
+      [
+        {
+          role: 'user',
+          content: [{ type: 'function-response', call: 'getWeather', response: { temp: 20 } }],
+        },
+      ],
+      { session, abortSignal: new AbortController().signal },
+    );
+    expect(request).toMatchObject({
+      tools: [{ type: 'function', function: { name: 'getWeather', description: 'Weather' } }],
+    });
+    expect(request.messages.at(-1)).toEqual({
+      role: 'tool',
+      tool_call_id: 'call_1',
+      content: '{"temp":20}',
+    });
+  });
+
+  test('sends null content for turns with only function calls', async () => {
+    const provider = new OpenaiProvider('gpt-test', 'test-key');
+    const { request } = await provider.run(
+      [
+        { role: 'user', content: [{ text: 'Weather?' }] },
+        { role: 'assistant', content: [{ type: 'function-call', name: 'getWeather', args: {} }] },
+        {
+          role: 'user',
+          content: [{ type: 'function-response', call: 'getWeather', response: { temp: 20 } }],
+        },
+      ],
+      { abortSignal: new AbortController().signal },
+    );
+    expect(request.messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call_0', type: 'function', function: { name: 'getWeather', arguments: '{}' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_0', content: '{"temp":20}' },
+    ]);
+  });
+
+  test('throws for responses without a call', async () => {
+    const provider = new OpenaiProvider('gpt-test', 'test-key');
+    await expect(
+      provider.run(
+        [{ role: 'user', content: [{ type: 'function-response', call: 'missing', response: 1 }] }],
+        { abortSignal: new AbortController().signal },
+      ),
+    ).rejects.toThrow('No function call found for response: missing');
+  });
+});
+
+describe('OpenaiProvider responseSchema', () => {
+  const responseSchema = { type: 'object', properties: { answer: { type: 'string' } } };
+
+  test('requests a JSON schema response', async () => {
+    const provider = new OpenaiProvider('gpt-test', 'test-key', { responseSchema });
+    const { request } = await provider.run([{ role: 'user', content: [{ text: 'Hi' }] }], {
+      abortSignal: new AbortController().signal,
+    });
+    expect(request).toMatchObject({
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: responseSchema },
+      },
+    });
+    expect(request).not.toHaveProperty('responseSchema');
+  });
+
+  test('adds the parsed output as a structured part', () => {
+    const provider = new OpenaiProvider('gpt-test', 'test-key', { responseSchema });
+    const output = provider.extractOutput({
+      id: '1',
+      choices: [{ message: { role: 'assistant', content: '{"answer":"42"}' } }],
+    });
+    expect(output).toEqual([
+      '{"answer":"42"}',
+      {
+        type: 'meta',
+        title: 'Structured Output',
+        icon: 'code',
+        message: '{\n  "answer": "42"\n}',
+        data: { answer: '42' },
+      },
+    ]);
+  });
+});
@@ -1,6 +1,7 @@
 import {
   normalizedProviderConfigSchema,
   type ConversationPrompt,
+  type ExtractedOutputPart,
   type ModelProvider,
   type PromptPart,
   type RunContext,
@@ -11,10 +12,46 @@ import { Semaphore } from '$lib/utils/semaphore';
 import { sse } from '$lib/utils/sse';
 import { z } from 'zod';
 import { CHROME_CONCURRENT_REQUEST_LIMIT_PER_DOMAIN } from './common';
-import { exponentialBackoff, shouldRetryHttpError, HttpError } from '$lib/utils/exponentialBackoff';
+import {
+  exponentialBackoff,
+  shouldRetryHttpError,
+  HttpError,
+  parseRetryAfter,
+} from '$lib/utils/exponentialBackoff';
+import {
+  convertFunctionDeclarations,
+  getCallId,
+  parseFunctionArgs,
+  stringifyFunctionResponse,
+  takePendingCall,
+  type PendingCall,
+} from './functionCalls';
+import { addStructuredOutput } from './structuredOutput';
 
 const OPENAI_SEMAPHORE = new Semaphore(CHROME_CONCURRENT_REQUEST_LIMIT_PER_DOMAIN);
 
+const toolCallSchema = z.object({
+  id: z.string(),
+  type: z.literal('function'),
+  function: z.object({
+    name: z.string(),
+    arguments: z.string(),
+  }),
+});
+type ToolCall = z.infer<typeof toolCallSchema>;
+
+// Tool calls are streamed in pieces, identified by index
+const toolCallDeltaSchema = z.object({
+  index: z.number(),
+  id: z.string().nullish(),
+  function: z
+    .object({
+      name: z.string().nullish(),
+      arguments: z.string().nullish(),
+    })
+    .nullish(),
+});
+
 const generateContentResponseSchema = z.object({
   id: z.string(),
   choices: z.array(
@@ -23,11 +60,13 @@ const generateContentResponseSchema = z.object({
         .object({
           content: z.string().nullish(),
           role: z.string(),
+          tool_calls: z.array(toolCallSchema).optional(),
         })
         .optional(),
       delta: z
         .object({
           content: z.string().nullish(),
+          tool_calls: z.array(toolCallDeltaSchema).nullish(),
         })
         .optional(),
     }),
@@ -37,18 +76,24 @@ const generateContentResponseSchema = z.object({
       completion_tokens: z.number().int(),
       prompt_tokens: z.number().int(),
       total_tokens: z.number().int(),
+      prompt_tokens_details: z
+        .object({
+          cached_tokens: z.number().int().nullish(),
+          audio_tokens: z.number().int().nullish(),
+        })
+        .nullish(),
     })
     .nullable()
     .optional(),
 });
 
-const configSchema = normalizedProviderConfigSchema
+export const openaiConfigSchema = normalizedProviderConfigSchema
   .extend({
     apiBaseUrl: z.string().optional(),
   })
   .passthrough();
 
-export type OpenaiConfig = z.infer<typeof configSchema>;
+export type OpenaiConfig = z.infer<typeof openaiConfigSchema>;
 
 const errorSchema = z.object({
   error: z.object({
@@ -60,18 +105,38 @@ const errorSchema = z.object({
 export class OpenaiProvider implements ModelProvider {
   private apiBaseUrl: string;
   private request: object;
+  private structured: boolean;
   constructor(
     public model: string,
     public apiKey: string,
     config = {},
     public costFunction: typeof getCost = getCost,
   ) {
-    const { apiBaseUrl, mimeTypes, ...request } = configSchema.parse(config);
+    const { apiBaseUrl, mimeTypes, responseSchema, ...request } = openaiConfigSchema.parse(config);
     if (mimeTypes) {
       this.mimeTypes = mimeTypes;
     }
     this.apiBaseUrl = apiBaseUrl ?? 'https://api.openai.com';
-    this.request = request;
+    this.request = {
+      ...request,
+      ...('tools' in request
+        ? {
+            tools: convertFunctionDeclarations(request.tools, (declaration) => ({
+              type: 'function',
+              function: declaration,
+            })),
+          }
+        : {}),
+      ...(responseSchema
+        ? {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'response', schema: responseSchema },
+            },
+          }
+        : {}),
+    };
+    this.structured = responseSchema !== undefined;
   }
 
   get id(): string {
@@ -92,7 +157,7 @@ export class OpenaiProvider implements ModelProvider {
 
   async run(conversation: ConversationPrompt, context: RunContext) {
     const sessionMessages = (context.session?.state ?? []) as Message[];
-    const newMessages = await conversationToOpenAI(conversation);
+    const newMessages = await conversationToOpenAI(conversation, getPendingCalls(sessionMessages));
     const messages = mergeMessages(sessionMessages, newMessages);
 
     const request = {
@@ -130,12 +195,17 @@ export class OpenaiProvider implements ModelProvider {
                 throw new HttpError(
                   `Failed to run model: ${error.error.type}: ${error.error.message}`,
                   resp.status,
+                  parseRetryAfter(resp.headers),
                 );
               } catch (parseError) {
                 if (parseError instanceof HttpError) {
                   throw parseError;
                 }
-                throw new HttpError(`Failed to run model: ${resp.statusText}`, resp.status);
+                throw new HttpError(
+                  `Failed to run model: ${resp.statusText}`,
+                  resp.status,
+                  parseRetryAfter(resp.headers),
+                );
               }
             }
             return resp;
@@ -144,17 +214,23 @@ export class OpenaiProvider implements ModelProvider {
         );
         const stream = resp.body;
         let fullText = '';
+        const toolCalls: ToolCall[] = [];
         let lastResponseJson: unknown;
         if (!stream) throw new Error(`Failed to run model: no response`);
         for await (const value of sse(resp)) {
           lastResponseJson = JSON.parse(value);
           const text = extractDeltaOutput(lastResponseJson);
+          applyToolCallDeltas(toolCalls, lastResponseJson);
           fullText += text;
           yield text;
         }
 
         const parsed = generateContentResponseSchema.parse(lastResponseJson);
-        const message = { role: 'assistant', content: fullText } satisfies Message;
+        const message = {
+          role: 'assistant' as const,
+          content: fullText === '' && toolCalls.length > 0 ? null : fullText,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        } satisfies Message;
         parsed.choices = [{ message }];
         return {
           response: parsed,
@@ -171,17 +247,23 @@ export class OpenaiProvider implements ModelProvider {
     return json.choices[0]?.delta?.content ?? '';
   }
 
-  extractOutput(response: unknown): (string | Blob)[] {
+  extractOutput(response: unknown): ExtractedOutputPart[] {
     const json = generateContentResponseSchema.parse(response);
-    const firstChoice = json.choices[0].message?.content;
-    if (typeof firstChoice === 'string') {
-      return [firstChoice];
-    }
-    if (firstChoice == null) {
-      return [''];
+    const message = json.choices[0].message;
+    const content = message?.content;
+    const calls = (message?.tool_calls ?? []).map(
+      (call): ExtractedOutputPart => ({
+        type: 'function-call',
+        name: call.function.name,
+        args: parseFunctionArgs(call.function.arguments),
+        meta: { id: call.id },
+      }),
+    );
+    if (calls.length > 0 && !content) {
+      return calls;
     }
-
-    throw new Error('Unexpected output format');
+    const parts = [content ?? '', ...calls];
+    return this.structured ? addStructuredOutput(parts) : parts;
   }
 
   extractTokenUsage(response: unknown): TokenUsage {
@@ -194,12 +276,14 @@ export class OpenaiProvider implements ModelProvider {
       total_tokens: 0,
     };
 
-    const { completion_tokens, prompt_tokens, total_tokens } = usage;
+    const { completion_tokens, prompt_tokens, total_tokens, prompt_tokens_details } = usage;
     return {
       inputTokens: prompt_tokens,
       outputTokens: completion_tokens,
       totalTokens: total_tokens,
       costDollars: this.costFunction(this.model, prompt_tokens, completion_tokens),
+      cachedInputTokens: prompt_tokens_details?.cached_tokens ?? undefined,
+      audioInputTokens: prompt_tokens_details?.audio_tokens ?? undefined,
     };
   }
 }
@@ -277,20 +361,75 @@ export async function multiPartPromptToOpenAI(part: PromptPart): Promise<Part> {
   }
 }
 
-export interface Message {
-  role: 'user' | 'assistant' | 'system';
-  content: Part[] | string;
+export type Message =
+  | {
+      role: 'user' | 'assistant' | 'system';
+      content: Part[] | string | null; // Only null with tool calls
+      tool_calls?: ToolCall[];
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+async function conversationToOpenAI(
+  conversation: ConversationPrompt,
+  pendingCalls: PendingCall[],
+): Promise<Message[]> {
+  const messages: Message[] = [];
+  for (const { role, content } of conversation) {
+    const parts: Part[] = [];
+    const toolCalls: ToolCall[] = [];
+    for (const part of content) {
+      if ('type' in part && part.type === 'function-call') {
+        const id = getCallId(part.meta) ?? `call_${pendingCalls.length}`;
+        toolCalls.push({
+          id,
+          type: 'function',
+          function: { name: part.name, arguments: JSON.stringify(part.args ?? {}) },
+        });
+        pendingCalls.push({ id, name: part.name });
+      } else if ('type' in part) {
+        // Function responses are sent as separate tool messages
+        messages.push({
+          role: 'tool',
+          tool_call_id: takePendingCall(pendingCalls, part),
+          content: stringifyFunctionResponse(part.response),
+        });
+      } else {
+        parts.push(await multiPartPromptToOpenAI(part));
+      }
+    }
+    if (parts.length > 0 || toolCalls.length > 0) {
+      messages.push({
+        role,
+        // Empty content arrays are rejected
+        content: parts.length > 0 ? parts : null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+    }
+  }
+  return messages;
+}
+
+// Calls from the session that haven't been answered yet
+function getPendingCalls(messages: Message[]): PendingCall[] {
+  const answered = new Set(messages.map((m) => (m.role === 'tool' ? m.tool_call_id : null)));
+  return messages
+    .flatMap((m) => (m.role === 'tool' ? [] : (m.tool_calls ?? [])))
+    .filter((call) => !answered.has(call.id))
+    .map((call) => ({ id: call.id, name: call.function.name }));
 }
 
-async function conversationToOpenAI(conversation: ConversationPrompt): Promise<Message[]> {
-  return await Promise.all(
-    conversation.map(
-      async (part): Promise<Message> => ({
-        role: part.role,
-        content: await Promise.all(part.content.map(multiPartPromptToOpenAI)),
-      }),
-    ),
-  );
+function applyToolCallDeltas(toolCalls: ToolCall[], response: unknown) {
+  const json = generateContentResponseSchema.parse(response);
+  for (const delta of json.choices[0]?.delta?.tool_calls ?? []) {
+    const call = (toolCalls[delta.index] ??= {
+      id: '',
+      type: 'function',
+      function: { name: '', arguments: '' },
+    });
+    call.id = delta.id ?? call.id;
+    call.function.name += delta.function?.name ?? '';
+    call.function.arguments += delta.function?.arguments ?? '';
+  }
 }
 
 function mergeMessages(a: Message[], b: Message[]): Message[] {
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'vitest';
+import { findPricing, getCostFromPricing } from './pricing';
+
+describe('findPricing', () => {
+  const table = {
+    'ollama:*': { input: 0, output: 0 },
+    'openai:ft:*': { input: 1, output: 2 },
+    'openai:ft:gpt-4o-mini:acme*': { input: 3, output: 4 },
+    'openai:gpt-4o': { input: 5, output: 6 },
+  };
+
+  test('matches ids exactly or by prefix', () => {
+    expect(findPricing(table, 'openai:gpt-4o')).toEqual({ input: 5, output: 6 });
+    expect(findPricing(table, 'openai:gpt-4o-mini')).toBeUndefined();
+    expect(findPricing(table, 'ollama:llama3')).toEqual({ input: 0, output: 0 });
+  });
+
+  test('prefers the longest match', () => {
+    expect(findPricing(table, 'openai:ft:gpt-4o-mini:acme:123')).toEqual({ input: 3, output: 4 });
+    expect(findPricing(table, 'openai:ft:gpt-4o:other')).toEqual({ input: 1, output: 2 });
+  });
+});
+
+describe('getCostFromPricing', () => {
+  test('prices each kind of input token', () => {
+    const pricing = { input: 2, output: 10, cachedInput: 0.5, audio: 20 };
+    const usage = {
+      inputTokens: 1000,
+      outputTokens: 100,
+      cachedInputTokens: 200,
+      audioInputTokens: 300,
+      imageInputTokens: 100,
+    };
+    // 400 text and 100 image tokens use the input rate
+    expect(getCostFromPricing(usage, pricing, 'openai:gpt-4o')).toBeCloseTo(
+      (500 * 2 + 200 * 0.5 + 300 * 20 + 100 * 10) / 1000000,
+    );
+  });
+
+  test('defaults Anthropic cache rates to a fraction of the input rate', () => {
+    const usage = {
+      inputTokens: 3100,
+      outputTokens: 10,
+      cachedInputTokens: 2000,
+      cacheWriteInputTokens: 1000,
+    };
+    const anthropic = 'anthropic:claude-sonnet-4';
+    // Matches the built-in Anthropic pricing: reads at 0.1x and writes at 1.25x input
+    expect(getCostFromPricing(usage, { input: 3, output: 15 }, anthropic)).toBeCloseTo(
+      ((100 + 2000 * 0.1 + 1000 * 1.25) * 3 + 10 * 15) / 1000000,
+    );
+    expect(
+      getCostFromPricing(usage, { input: 3, output: 15, cacheWrite: 4 }, anthropic),
+    ).toBeCloseTo(((100 + 2000 * 0.1) * 3 + 1000 * 4 + 10 * 15) / 1000000);
+  });
+
+  test('defaults other cache rates to the input rate', () => {
+    const usage = { inputTokens: 1000, outputTokens: 10, cachedInputTokens: 600 };
+    expect(getCostFromPricing(usage, { input: 2, output: 8 }, 'gemini:gemini-2.5-pro')).toBeCloseTo(
+      (1000 * 2 + 10 * 8) / 1000000,
+    );
+  });
+
+  test('needs token counts', () => {
+    expect(getCostFromPricing({}, { input: 1, output: 1 }, 'openai:gpt-4o')).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import type { Pricing, TokenUsage } from '$lib/types';
+
+/**
+ * Finds the pricing for a provider id. Keys match the id exactly, or as a
+ * prefix when they end with `*`, e.g. `ollama:*`. The longest match wins.
+ */
+export function findPricing(
+  table: Record<string, Pricing>,
+  providerId: string,
+): Pricing | undefined {
+  let best: { key: string; pricing: Pricing } | undefined;
+  for (const [key, pricing] of Object.entries(table)) {
+    const matches = key.endsWith('*')
+      ? providerId.startsWith(key.slice(0, -1))
+      : providerId === key;
+    if (matches && (!best || key.length > best.key.length)) {
+      best = { key, pricing };
+    }
+  }
+  return best?.pricing;
+}
+
+export function getCostFromPricing(
+  usage: TokenUsage,
+  pricing: Pricing,
+  providerId: string,
+): number | undefined {
+  const { inputTokens, outputTokens } = usage;
+  if (inputTokens === undefined && outputTokens === undefined) {
+    return undefined;
+  }
+  const cached = usage.cachedInputTokens ?? 0;
+  const cacheWrite = usage.cacheWriteInputTokens ?? 0;
+  const audio = usage.audioInputTokens ?? 0;
+  const image = usage.imageInputTokens ?? 0;
+  const text = Math.max(0, (inputTokens ?? 0) - cached - cacheWrite - audio - image);
+  // Other providers' cache discounts vary, but Anthropic's reads cost 90% less than input,
+  // and writes 25% more
+  const isAnthropic = providerId.startsWith('anthropic:');
+  const cost =
+    text * pricing.input +
+    cached * (pricing.cachedInput ?? (isAnthropic ? pricing.input * 0.1 : pricing.input)) +
+    cacheWrite * (pricing.cacheWrite ?? (isAnthropic ? pricing.input * 1.25 : pricing.input)) +
+    audio * (pricing.audio ?? pricing.input) +
+    image * (pricing.image ?? pricing.input) +
+    (outputTokens ?? 0) * pricing.output;
+  return cost / 1000000;
+}
@@ -0,0 +1,157 @@
+import { normalizedProviderConfigSchema, type ModelProvider, type Run } from '$lib/types';
+import type { ReadonlyFileStorage } from '$lib/types/storage';
+import { z } from 'zod';
+import { GeminiProvider } from './gemini';
+import { OpenaiProvider, openaiConfigSchema, type OpenaiConfig } from './openai';
+import { ReverserProvider } from './reverser';
+import { ChromeProvider } from './chrome';
+import { OllamaProvider } from './ollama';
+import { WebLlm } from './web-llm';
+import { AnthropicProvider } from './anthropic';
+import { DalleProvider, dalleConfigSchema } from './dalle';
+import { ComfyuiProvider, comfyuiConfigSchema } from './comfyui';
+import { EchoProvider } from './echo';
+import { GeminiLiveProvider } from './gemini-live';
+import { HttpProvider, getHttpEnvVars, httpConfigSchema } from './http';
+import { createJsProvider } from './code';
+import { ReplayProvider, replayConfigSchema } from './replay';
+
+export interface ProviderType {
+  // The part of the provider id before the colon, e.g. `gemini` in `gemini:gemini-1.5-pro`
+  prefix: string;
+  description?: string;
+  // Checked before `create` is called, and shown in the settings dialog
+  requiredEnvVars: string[] | ((config: object) => string[]);
+  configSchema?: z.ZodType<object>;
+  // Whether the provider translates `config.responseSchema` to its own structured output
+  supportsResponseSchema?: boolean;
+  create(
+    model: string,
+    options: {
+      env: Record<string, string>;
+      config: object;
+      storage?: ReadonlyFileStorage;
+      loadRuns?: () => Promise<Run[]>;
+    },
+  ): ModelProvider;
+}
+
+export function getRequiredEnvVars(type: ProviderType, config: object = {}): string[] {
+  return typeof type.requiredEnvVars === 'function'
+    ? type.requiredEnvVars(config)
+    : type.requiredEnvVars;
+}
+
+export const builtinProviderTypes: ProviderType[] = [
+  {
+    prefix: 'gemini',
+    description: 'Google Gemini',
+    requiredEnvVars: ['GEMINI_API_KEY'],
+    supportsResponseSchema: true,
+    create: (model, { env, config }) => new GeminiProvider(model, env.GEMINI_API_KEY, config),
+  },
+  {
+    prefix: 'gemini-live',
+    description: 'Google Gemini Live API',
+    requiredEnvVars: ['GEMINI_API_KEY'],
+    create: (model, { env, config }) => new GeminiLiveProvider(model, env.GEMINI_API_KEY, config),
+  },
+  {
+    prefix: 'openai',
+    description: 'OpenAI chat completions',
+    requiredEnvVars: ['OPENAI_API_KEY'],
+    configSchema: openaiConfigSchema,
+    supportsResponseSchema: true,
+    create: (model, { env, config }) => new OpenaiProvider(model, env.OPENAI_API_KEY, config),
+  },
+  {
+    prefix: 'dalle',
+    description: 'OpenAI image generation',
+    requiredEnvVars: ['OPENAI_API_KEY'],
+    configSchema: dalleConfigSchema,
+    create: (model, { env, config }) => new DalleProvider(model, env.OPENAI_API_KEY, config),
+  },
+  {
+    prefix: 'anthropic',
+    description: 'Anthropic Claude',
+    requiredEnvVars: ['ANTHROPIC_API_KEY'],
+    configSchema: normalizedProviderConfigSchema.passthrough(),
+    supportsResponseSchema: true,
+    create: (model, { env, config }) => new AnthropicProvider(model, env.ANTHROPIC_API_KEY, config),
+  },
+  {
+    prefix: 'ollama',
+    description: 'Ollama',
+    // Not needed if the endpoint is set in the config
+    requiredEnvVars: (config) =>
+      (config as OpenaiConfig).apiBaseUrl === undefined ? ['OLLAMA_ENDPOINT'] : [],
+    configSchema: openaiConfigSchema,
+    supportsResponseSchema: true,
+    create: (model, { env, config }) =>
+      new OllamaProvider(model, 'no-key', {
+        apiBaseUrl: env.OLLAMA_ENDPOINT,
+        ...config,
+      }),
+  },
+  {
+    prefix: 'comfyui',
+    description: 'ComfyUI workflows',
+    requiredEnvVars: [],
+    configSchema: comfyuiConfigSchema,
+    create: (model, { config }) => new ComfyuiProvider(model, config),
+  },
+  {
+    prefix: 'http',
+    description: 'Generic HTTP endpoint',
+    // Env vars referenced in the url, headers or body templates
+    requiredEnvVars: getHttpEnvVars,
+    configSchema: httpConfigSchema,
+    create: (model, { env, config }) => new HttpProvider(model, env, config),
+  },
+  {
+    prefix: 'js',
+    description: 'Javascript or Typescript code, e.g. js:file:///provider.ts',
+    requiredEnvVars: [],
+    // The code receives the config, including the schema
+    supportsResponseSchema: true,
+    create: (model, { config, storage }) => createJsProvider(model, config, storage),
+  },
+  {
+    prefix: 'replay',
+    description: 'Replays the results of a saved run, e.g. replay:gemini:gemini-2.5-pro',
+    requiredEnvVars: [],
+    configSchema: replayConfigSchema,
+    // The recorded output already follows the schema
+    supportsResponseSchema: true,
+    create: (model, { config, loadRuns }) => new ReplayProvider(model, config, loadRuns),
+  },
+  {
+    prefix: 'chrome',
+    description: 'Chrome built-in AI (chrome:ai)',
+    requiredEnvVars: [],
+    create: (model) => {
+      if (model !== 'ai') {
+        throw new Error(`Unknown chrome model: ${model}`);
+      }
+      return new ChromeProvider();
+    },
+  },
+  {
+    prefix: 'web-llm',
+    description: 'WebLLM, running in the browser',
+    requiredEnvVars: [],
+    create: (model) => new WebLlm(model),
+  },
+  {
+    prefix: 'reverser',
+    description: 'Reverses the prompt, for testing',
+    requiredEnvVars: [],
+    create: (model) => new ReverserProvider(model),
+  },
+  {
+    prefix: 'echo',
+    description: 'Echoes the prompt, for testing',
+    requiredEnvVars: [],
+    create: (model) => new EchoProvider(model),
+  },
+];
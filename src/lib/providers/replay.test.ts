@@ -0,0 +1,125 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { describe, expect, test } from 'vitest';
+import { ReplayProvider } from './replay';
+import type { NormalizedTestCase, Run, RunContext } from '$lib/types';
+
+function createRun(timestamp: number, output: string): Run {
+  return {
+    version: 1,
+    id: `run-${timestamp}`,
+    timestamp,
+    envs: [
+      { provider: 'openai:gpt-4o', prompt: 'Hello {{name}}' },
+      { provider: { id: 'gemini:gemini-2.5-pro' }, prompt: 'Hello {{name}}' },
+    ],
+    tests: [{ vars: { name: 'Ada' } }, { vars: { name: 'Bob' }, assert: [] }],
+    results: [
+      [
+        { rawPrompt: null, rawOutput: { text: output }, output, pass: true, assertionResults: [] },
+        { rawPrompt: null, output: 'Gemini', pass: true, assertionResults: [] },
+      ],
+      [
+        { rawPrompt: null, error: 'Oops', pass: false, assertionResults: [] },
+        {
+          rawPrompt: null,
+          output: 'Final',
+          history: [{ id: 'step', rawPrompt: null, output: 'Step' }],
+          pass: true,
+          assertionResults: [],
+        },
+      ],
+    ],
+  };
+}
+
+const runs = [createRun(1, 'First'), createRun(2, 'Second')];
+
+function cell(name: string, stepId?: string): RunContext {
+  const test: NormalizedTestCase = { vars: { name }, assert: [] };
+  return {
+    abortSignal: new AbortController().signal,
+    cell: { test, prompt: 'Hello {{name}}', stepId },
+  };
+}
+
+async function runProvider(provider: ReplayProvider, context: RunContext) {
+  const { request, runModel } = await provider.run([], context);
+  const generator = runModel();
+  let next;
+  while (!(next = await generator.next()).done) {
+    // Skip updates
+  }
+  return { request, response: next.value.response };
+}
+
+describe('ReplayProvider', () => {
+  test('replays the latest run', async () => {
+    const provider = new ReplayProvider('openai:gpt-4o', {}, () => Promise.resolve(runs));
+    const { request, response } = await runProvider(provider, cell('Ada'));
+    expect(request).toEqual({ run: 'run-2', test: 0, env: 0, step: undefined });
+    expect(response).toEqual({ rawOutput: { text: 'Second' }, output: 'Second' });
+    expect(provider.extractOutput(response)).toBe('Second');
+    expect(provider.extractTokenUsage()).toMatchObject({ costDollars: 0 });
+  });
+
+  test('replays a chosen run', async () => {
+    const loadRuns = () => Promise.resolve(runs);
+    for (const run of ['run-1', 1]) {
+      const provider = new ReplayProvider('openai:gpt-4o', { run }, loadRuns);
+      const { response } = await runProvider(provider, cell('Ada'));
+      expect(provider.extractOutput(response)).toBe('First');
+    }
+  });
+
+  test('skips newer runs without the model', async () => {
+    const replayRun: Run = {
+      ...createRun(3, 'Replayed'),
+      id: 'replay',
+      envs: [{ provider: 'replay:openai:gpt-4o', prompt: 'Hello {{name}}' }],
+    };
+    const provider = new ReplayProvider('openai:gpt-4o', {}, () =>
+      Promise.resolve([...runs, replayRun]),
+    );
+    const { request, response } = await runProvider(provider, cell('Ada'));
+    expect(request).toMatchObject({ run: 'run-2', env: 0 });
+    expect(provider.extractOutput(response)).toBe('Second');
+  });
+
+  test('replays pipeline steps from the history', async () => {
+    const provider = new ReplayProvider('gemini:gemini-2.5-pro', {}, () => Promise.resolve(runs));
+    const { response } = await runProvider(provider, cell('Bob', 'step'));
+    expect(provider.extractOutput(response)).toBe('Step');
+  });
+
+  test('reports cells without a match', async () => {
+    const loadRuns = () => Promise.resolve(runs);
+    const provider = new ReplayProvider('openai:gpt-4o', {}, loadRuns);
+    await expect(runProvider(provider, cell('Eve'))).rejects.toThrow(
+      'No matching test in run run-2',
+    );
+    await expect(runProvider(provider, cell('Bob'))).rejects.toThrow(
+      'No output recorded in run run-2: Oops',
+    );
+    await expect(
+      runProvider(
+        new ReplayProvider('openai:gpt-4o-mini', { run: 'run-2' }, loadRuns),
+        cell('Ada'),
+      ),
+    ).rejects.toThrow('No matching env for openai:gpt-4o-mini in run run-2');
+    await expect(
+      runProvider(new ReplayProvider('openai:gpt-4o-mini', {}, loadRuns), cell('Ada')),
+    ).rejects.toThrow('No saved runs with openai:gpt-4o-mini to replay');
+    await expect(
+      runProvider(new ReplayProvider('gemini:gemini-2.5-pro', {}, loadRuns), cell('Bob', 'other')),
+    ).rejects.toThrow('No result for step other in run run-2');
+    await expect(
+      runProvider(new ReplayProvider('openai:gpt-4o', { run: 3 }, loadRuns), cell('Ada')),
+    ).rejects.toThrow('Run not found: 3');
+    await expect(
+      runProvider(new ReplayProvider('openai:gpt-4o', {}, () => Promise.resolve([])), cell('Ada')),
+    ).rejects.toThrow('No saved runs with openai:gpt-4o to replay');
+    await expect(
+      runProvider(provider, { abortSignal: new AbortController().signal }),
+    ).rejects.toThrow('replay:openai:gpt-4o can only replay test results');
+  });
+});
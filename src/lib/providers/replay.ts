@@ -0,0 +1,151 @@
+import { FileReference } from '$lib/storage/FileReference';
+import {
+  normalizedProviderConfigSchema,
+  providerOutputSchema,
+  type ConversationPrompt,
+  type Env,
+  type ExtractedOutputPart,
+  type ModelProvider,
+  type Run,
+  type RunContext,
+  type TestCase,
+  type TokenUsage,
+} from '$lib/types';
+import { z } from 'zod';
+
+export const replayConfigSchema = normalizedProviderConfigSchema
+  .extend({
+    // The id or timestamp of the run to replay, defaults to the latest run
+    run: z.union([z.string(), z.number()]).optional(),
+  })
+  .strict();
+export type ReplayConfig = z.infer<typeof replayConfigSchema>;
+
+const responseSchema = z.object({
+  rawOutput: z.unknown(),
+  output: providerOutputSchema,
+});
+
+/**
+ * Returns the recorded output of the same cell in a saved run, without
+ * calling a model. The model is the id of the provider that made the run, so
+ * `replay:gemini:gemini-2.5-pro` replays the cells that used
+ * `gemini:gemini-2.5-pro`.
+ */
+export class ReplayProvider implements ModelProvider {
+  private config: ReplayConfig;
+
+  constructor(
+    private readonly model: string,
+    config = {},
+    private readonly loadRuns?: () => Promise<Run[]>,
+  ) {
+    this.config = replayConfigSchema.parse(config);
+  }
+
+  get id(): string {
+    return `replay:${this.model}`;
+  }
+
+  mimeTypes = ['*/*'];
+
+  async run(_conversation: ConversationPrompt, context: RunContext) {
+    const { cell } = context;
+    if (!cell) {
+      throw new Error(`${this.id} can only replay test results`);
+    }
+    const run = await this.getRun();
+
+    const testIndex = run.tests.findIndex((test) => isSameTest(test, cell.test));
+    if (testIndex === -1) {
+      throw new Error(`No matching test in run ${run.id}`);
+    }
+    const envIndex = run.envs.findIndex(
+      (env) => getProviderIds(env).includes(this.model) && isSame(env.prompt, cell.prompt),
+    );
+    if (envIndex === -1) {
+      throw new Error(`No matching env for ${this.model} in run ${run.id}`);
+    }
+    const result = run.results[testIndex][envIndex];
+    // Pipeline steps are replayed from the history
+    const recorded = cell.stepId ? result.history?.find((item) => item.id === cell.stepId) : result;
+    if (!recorded) {
+      throw new Error(`No result for step ${cell.stepId} in run ${run.id}`);
+    }
+    if (recorded.output === undefined) {
+      throw new Error(`No output recorded in run ${run.id}: ${recorded.error ?? 'unknown error'}`);
+    }
+    const response = { rawOutput: recorded.rawOutput, output: recorded.output };
+
+    return {
+      request: { run: run.id, test: testIndex, env: envIndex, step: cell.stepId },
+      // eslint-disable-next-line @typescript-eslint/require-await
+      runModel: async function* () {
+        yield '';
+        // Sessions are accepted so pipeline steps with a session can be replayed
+        return { response, session: { state: null } };
+      },
+    };
+  }
+
+  private async getRun(): Promise<Run> {
+    const runs = (await this.loadRuns?.()) ?? [];
+    const { run: selected } = this.config;
+    // Skip runs without the model, such as earlier replays, whose envs are `replay:<id>`
+    const run =
+      selected === undefined
+        ? runs
+            .filter((run) => run.envs.some((env) => getProviderIds(env).includes(this.model)))
+            .reduce<
+              Run | undefined
+            >((latest, run) => (latest && latest.timestamp > run.timestamp ? latest : run), undefined)
+        : runs.find((run) => run.id === selected || run.timestamp === selected);
+    if (!run) {
+      throw new Error(
+        selected === undefined
+          ? `No saved runs with ${this.model} to replay`
+          : `Run not found: ${selected}`,
+      );
+    }
+    return run;
+  }
+
+  extractOutput(response: unknown): string | ExtractedOutputPart[] {
+    const { output } = responseSchema.parse(response);
+    if (typeof output === 'string') {
+      return output;
+    }
+    return output.map((part) => (part instanceof FileReference ? part.file : part));
+  }
+
+  extractTokenUsage(): TokenUsage {
+    return {
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      costDollars: 0,
+    };
+  }
+}
+
+function getProviderIds(env: Env): string[] {
+  return [env.provider, ...Object.values(env.labeledProviders ?? {})].flatMap((provider) => {
+    if (provider === null) return [];
+    return typeof provider === 'string' ? [provider] : [provider.id];
+  });
+}
+
+// Assertions aren't compared, so they can be changed between runs
+function isSameTest(
+  a: Pick<TestCase, 'vars' | 'cacheKey'>,
+  b: Pick<TestCase, 'vars' | 'cacheKey'>,
+) {
+  return isSame(a.vars ?? {}, b.vars ?? {}) && isSame(a.cacheKey, b.cacheKey);
+}
+
+// Compared as they are saved, with files as their URIs
+function isSame(a: unknown, b: unknown): boolean {
+  const replacer = (_key: string, value: unknown) =>
+    value instanceof FileReference ? value.uri : value;
+  return JSON.stringify(a, replacer) === JSON.stringify(b, replacer);
+}
@@ -0,0 +1,25 @@
+import type { ExtractedOutputPart, MetaProviderOutputPart } from '$lib/types';
+
+export function structuredOutputPart(data: unknown): MetaProviderOutputPart {
+  return {
+    type: 'meta',
+    title: 'Structured Output',
+    icon: 'code',
+    message: JSON.stringify(data, null, 2),
+    data,
+  };
+}
+
+/**
+ * Appends the parsed text as a structured output part, when the model was
+ * asked to follow a `responseSchema`. Text that isn't JSON is left as-is, so
+ * assertions can report it.
+ */
+export function addStructuredOutput(parts: ExtractedOutputPart[]): ExtractedOutputPart[] {
+  const text = parts.filter((part) => typeof part === 'string').join('');
+  try {
+    return [...parts, structuredOutputPart(JSON.parse(text))];
+  } catch {
+    return parts;
+  }
+}
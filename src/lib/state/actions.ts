@@ -1,4 +1,4 @@
-import { derived, get, writable, type Writable } from 'svelte/store';
+import { derived, get, writable, type Readable, type Writable } from 'svelte/store';
 import {
   configStore,
   liveRunStore,
@@ -26,6 +26,7 @@ import {
 import { UiError } from '$lib/types/errors';
 import { type FileStorage } from '$lib/types/storage';
 import { ProviderManager } from '$lib/providers/ProviderManager';
+import { createCodeProviderTypes } from '$lib/providers/code';
 import { SimpleEnvironment } from '$lib/utils/SimpleEnvironment';
 import { HandlebarsPromptFormatter } from '$lib/utils/HandlebarsPromptFormatter';
 import { ParallelTaskQueue } from '$lib/utils/ParallelTaskQueue';
@@ -35,7 +36,9 @@ import { alertStore, type AlertState } from './ui';
 import { FileSystemEvalsStorage } from '$lib/storage/FileSystemEvalsStorage';
 import { WebFileSystemStorage } from '$lib/storage/WebFileSystemStorage';
 import { getVarNamesForTests } from '$lib/utils/testCase';
-import { summarizeResults } from '$lib/utils/summarizeResults';
+import { getPairwiseComparisons, summarizeResults } from '$lib/utils/summarizeResults';
+import { bradleyTerryRatings } from '$lib/utils/pairwiseRatings';
+import { scoreAssertionResults } from '$lib/utils/scoreAssertions';
 import * as idb from 'idb-keyval';
 import { InMemoryStorage } from '$lib/storage/InMemoryStorage';
 import * as CodeSandbox from '$lib/utils/CodeSandbox';
@@ -317,7 +320,12 @@ export async function runTests() {
 
   // Create the provider manager
   const env = get(parsedEnvStore); // TODO validate that env variables for each provider is set
-  const providerManager = new ProviderManager(env);
+  const providerManager = new ProviderManager(env, {
+    providerTypes: createCodeProviderTypes(config.providerTypes),
+    storage: storage instanceof FileSystemEvalsStorage ? storage.fs : undefined,
+    pricing: config.pricing,
+    loadRuns: () => storage.getAllRuns(configFile),
+  });
 
   // Create environments
   let runEnvs: RunEnv[];
@@ -347,7 +355,11 @@ export async function runTests() {
   const abortController = new AbortController();
   const results: LiveRun['results'] = [];
   const runner = new ParallelTaskQueue(config.options?.maxConcurrency ?? Infinity);
-  const mgr = new AssertionManager(providerManager, abortController.signal);
+  const mgr = new AssertionManager(providerManager, abortController.signal, {
+    assertionSets: config.assertionSets,
+    assertionTypes: config.assertionTypes,
+    cache,
+  });
   try {
     for (const test of globalTests) {
       const testResults: Writable<LiveResult>[] = [];
@@ -358,7 +370,11 @@ export async function runTests() {
         runner.enqueue(async ({ abortSignal }) => {
           try {
             numRunningTestsStore.update((n) => n + 1);
-            await runTest(test, env, mgr, result, { abortSignal, cacheKey: test.cacheKey });
+            await runTest(test, env, mgr, result, {
+              abortSignal,
+              cacheKey: test.cacheKey,
+              cell: { test, prompt: env.prompt },
+            });
           } finally {
             numRunningTestsStore.update((n) => n - 1);
           }
@@ -378,16 +394,44 @@ export async function runTests() {
     await CodeSandbox.clear();
   }
 
+  // Pairwise ratings compare envs, so they're kept apart from the per-env summaries
+  // and only refit when the comparisons of finished cells change
+  let lastComparisons = '';
+  const ratings = derived<Readable<LiveResult>[], (number | undefined)[]>(
+    results.flat(),
+    ($results, set) => {
+      const rows = results.map((_, i) =>
+        $results
+          .slice(i * runEnvs.length, (i + 1) * runEnvs.length)
+          .map((r) => (r.state === 'success' || r.state === 'error' ? r : {})),
+      );
+      const comparisons = getPairwiseComparisons(rows);
+      const key = JSON.stringify(comparisons);
+      if (key !== lastComparisons) {
+        lastComparisons = key;
+        set(bradleyTerryRatings(runEnvs.length, comparisons));
+      }
+    },
+    [],
+  );
+
   // Create summaries derived from the testResults
   const summaries: LiveRun['summaries'] = runEnvs.map((_, index) =>
     derived(
-      results.map((row) => row[index]),
-      ($results) =>
-        summarizeResults($results, (r) => {
-          if (r.state === 'success') return true;
-          if (r.state === 'error') return false;
-          return null;
-        }),
+      [
+        derived(
+          results.map((row) => row[index]),
+          ($results) =>
+            summarizeResults($results, (r) => {
+              if (r.state === 'success') return true;
+              if (r.state === 'error') return false;
+              return null;
+            }),
+        ),
+        ratings,
+      ],
+      ([$summary, $ratings]) =>
+        $ratings[index] === undefined ? $summary : { ...$summary, rating: $ratings[index] },
     ),
   );
 
@@ -468,7 +512,10 @@ function getRunEnvs(providers: NormalizedProvider[], prompts: NormalizedPrompt[]
         return true;
       });
       for (const provider of matchingProviders) {
-        envs.push({ provider, prompt: prompt.prompt });
+        envs.push({
+          provider: withResponseSchema(provider, prompt.responseSchema),
+          prompt: prompt.prompt,
+        });
       }
     } else if (typeof prompt === 'object' && '$pipeline' in prompt) {
       // Pipeline
@@ -504,6 +551,17 @@ function getRunEnvs(providers: NormalizedProvider[], prompts: NormalizedPrompt[]
   return envs;
 }
 
+// A prompt's responseSchema overrides the provider's
+function withResponseSchema(
+  provider: NormalizedProvider,
+  responseSchema: Record<string, unknown> | undefined,
+): NormalizedProvider {
+  if (!responseSchema) {
+    return provider;
+  }
+  return { ...provider, config: { ...provider.config, responseSchema } };
+}
+
 function createEnvironments(
   runEnvs: RunEnv[],
   providerManager: ProviderManager,
@@ -604,6 +662,11 @@ async function runTest(
       started = true;
     }
     if (!next.done) {
+      // Any other update means the request has started
+      const rateLimited = typeof next.value !== 'string' && next.value.type === 'rate-limited';
+      if ((get(result).rateLimited ?? false) !== rateLimited) {
+        result.update((state) => ({ ...state, rateLimited }));
+      }
       if (typeof next.value === 'string') {
         const delta = next.value;
         result.update((state) => {
@@ -641,7 +704,7 @@ async function runTest(
           }),
         );
         // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-      } else if (next.value.type === 'begin-stream') {
+      } else if (next.value.type === 'begin-stream' || next.value.type === 'rate-limited') {
         // Do nothing
       } else {
         throw new Error('Unknown model update type');
@@ -668,6 +731,7 @@ async function runTest(
       output: arrayOutput,
       state: 'error',
       pass: false,
+      rateLimited: false, // Aborted while waiting for the rate limit
     }));
     return;
   }
@@ -684,24 +748,29 @@ async function runTest(
   // Test assertions
   const assertions = test.assert.map((a) => ({
     id: a.id,
+    weight: a.weight ?? 1,
     assert: assertionManager.getAssertion(a, test.vars),
   }));
   const assertionResults: AssertionResult[] = [];
+  const weights: number[] = [];
   for (const assertion of assertions) {
     if (!('type' in assertion.assert)) {
       // TODO: Run in parallel
       const result = await assertion.assert.run(testResult.output, {
         provider: env.provider,
         prompt: env.prompt,
+        testOutput: testResult,
       });
       result.id = assertion.id;
       assertionResults.push(result);
+      weights.push(assertion.weight);
     }
   }
   const hasAssertionsPending = assertions.some(
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
     (a) => 'type' in a.assert && a.assert.type === 'row',
   );
+  const { pass, score } = scoreAssertionResults(assertionResults, weights, test.threshold);
 
   result.update((state) => ({
     ...state,
@@ -711,12 +780,9 @@ async function runTest(
       output: h.output === undefined ? undefined : Array.isArray(h.output) ? h.output : [h.output],
     })),
     output: arrayOutput,
-    state: hasAssertionsPending
-      ? 'in-progress'
-      : assertionResults.every((r) => r.pass)
-        ? 'success'
-        : 'error',
+    state: hasAssertionsPending ? 'in-progress' : pass ? 'success' : 'error',
     assertionResults,
+    score: hasAssertionsPending ? undefined : score,
   }));
 }
 
@@ -728,14 +794,23 @@ async function runRowAssertions(
 ): Promise<void> {
   const testResultsSnapshot = testResults.map((r) => get(r));
   const testOutputs: TestOutput[] = testResultsSnapshot.map((r) => {
-    const { state: _s, assertionResults: _ar, ...rest } = r;
+    const { state: _s, assertionResults: _ar, score: _sc, ...rest } = r;
     return rest;
   });
   // Run row-level assertions
   const assertions = test.assert.map((a) => ({
     id: a.id,
+    weight: a.weight ?? 1,
     assert: mgr.getAssertion(a, test.vars),
   }));
+  // Cell-level results come first, then row-level results in order
+  const isRow = (a: (typeof assertions)[number]) =>
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    'type' in a.assert && a.assert.type === 'row';
+  const weights = [
+    ...assertions.filter((a) => !isRow(a)),
+    ...assertions.filter((a) => isRow(a)),
+  ].map((a) => a.weight);
   for (const assertion of assertions) {
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
     if ('type' in assertion.assert && assertion.assert.type === 'row') {
@@ -756,14 +831,18 @@ async function runRowAssertions(
 
           // Only update resultState if this is the last assertion result
           let resultState = state.state;
+          let score = state.score;
           if (assertionResults.length === assertions.length) {
-            resultState = assertionResults.every((r) => r.pass) ? 'success' : 'error';
+            const cellScore = scoreAssertionResults(assertionResults, weights, test.threshold);
+            resultState = cellScore.pass ? 'success' : 'error';
+            score = cellScore.score;
           }
 
           return {
             ...state,
             assertionResults: assertionResults,
             state: resultState,
+            score,
           };
         });
       });
@@ -782,6 +861,7 @@ function liveRunToRun(liveRun: LiveRun): Run {
         return {
           ...res,
           state: undefined,
+          rateLimited: undefined,
           pass: res.state === 'success',
           assertionResults: res.assertionResults ?? [],
         };
@@ -8,12 +8,14 @@ import {
   storageStore,
 } from './stores';
 import { ProviderManager } from '$lib/providers/ProviderManager';
+import { createCodeProviderTypes } from '$lib/providers/code';
 import { envStore } from './env';
-import type { LiveResult, LiveRun, Run } from '$lib/types';
+import { providerSchema, type LiveResult, type LiveRun, type Run } from '$lib/types';
 import { getVarNamesForTests } from '$lib/utils/testCase';
-import { summarizeResults } from '$lib/utils/summarizeResults';
+import { summarizeRows } from '$lib/utils/summarizeResults';
 import { alertStore } from './ui';
 import { AnnotationManager } from './annotations';
+import { z } from 'zod';
 
 function parseEnvText(env: string): Record<string, string> {
   // Given a series of key=value pairs separated by newlines, create an object
@@ -40,27 +42,42 @@ export const parsedEnvStore = derived(envStore, ($env) => {
   return parseEnvText($env);
 });
 
-export const requiredEnvStore = derived(configStore, ($config) => {
-  const requiredEnvVars = new Set<string>();
-  const providers = $config?.providers ?? [];
-  const mgr = new ProviderManager({});
+export interface RequiredEnvVar {
+  name: string;
+  // Descriptions of the provider types that need it
+  usedBy: string[];
+}
+
+export const requiredEnvStore = derived(configStore, ($config): RequiredEnvVar[] => {
+  const requiredEnvVars = new Map<string, Set<string>>();
+  let mgr: ProviderManager;
+  try {
+    mgr = new ProviderManager(
+      {},
+      { providerTypes: createCodeProviderTypes($config?.providerTypes) },
+    );
+  } catch (err) {
+    showInvalidProviderAlert(err instanceof Error ? err.message : String(err));
+    return [];
+  }
+  const addProvider = (providerId: string, config: object = {}) => {
+    const providerType = mgr.getProviderType(providerId);
+    for (const envVar of mgr.getRequiredEnvVars(providerId, config)) {
+      const usedBy = requiredEnvVars.get(envVar) ?? new Set<string>();
+      usedBy.add(providerType.description ?? providerType.prefix);
+      requiredEnvVars.set(envVar, usedBy);
+    }
+  };
 
+  const providers = $config?.providers ?? [];
   for (const provider of providers) {
     const providerId = typeof provider === 'string' ? provider : provider.id;
     try {
-      const envVars = mgr.getRequiredEnvVars(providerId);
-      for (const envVar of envVars) {
-        requiredEnvVars.add(envVar);
-      }
+      addProvider(providerId, typeof provider === 'string' ? {} : provider.config);
     } catch {
-      alertStore.set({
-        title: 'Invalid provider',
-        description: [`The provider '${providerId}' is not available. Please check your config.`],
-        callback: () => {
-          console.log('closed');
-        },
-        cancelText: null,
-      });
+      showInvalidProviderAlert(
+        `The provider '${providerId}' is not available. Please check your config.`,
+      );
       return [];
     }
   }
@@ -69,24 +86,40 @@ export const requiredEnvStore = derived(configStore, ($config) => {
   for (const test of tests) {
     const asserts = test.assert;
     for (const assertion of asserts) {
-      const vars = assertion.vars;
-      if ('provider' in vars && typeof vars.provider === 'string') {
-        // TODO support other types of provider
-        const providerId = vars.provider;
-        const envVars = mgr.getRequiredEnvVars(providerId);
-        for (const envVar of envVars) {
-          requiredEnvVars.add(envVar);
+      // Judges are set with `provider`, or `providers` for multiple judges
+      const { provider, providers } = assertion.vars as { provider?: unknown; providers?: unknown };
+      const judges = z
+        .array(providerSchema)
+        .safeParse([provider, providers].flat().filter((p) => p !== undefined));
+      for (const judge of judges.data ?? []) {
+        if (typeof judge === 'string') {
+          addProvider(judge);
+        } else {
+          addProvider(judge.id, judge.config);
         }
       }
     }
   }
 
-  return Array.from(requiredEnvVars).sort();
+  return Array.from(requiredEnvVars.entries())
+    .map(([name, usedBy]) => ({ name, usedBy: Array.from(usedBy) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
 });
 
+function showInvalidProviderAlert(description: string) {
+  alertStore.set({
+    title: 'Invalid provider',
+    description: [description],
+    callback: () => {
+      console.log('closed');
+    },
+    cancelText: null,
+  });
+}
+
 export const validEnvStore = derived([requiredEnvStore, parsedEnvStore], ([$requiredEnv, $env]) => {
-  for (const key of $requiredEnv) {
-    if (!$env[key]) {
+  for (const { name } of $requiredEnv) {
+    if (!$env[name]) {
       return false;
     }
   }
@@ -201,13 +234,8 @@ function runToLiveRun(run: Run): LiveRun {
     ...run,
     canceled: run.canceled ?? false,
     varNames: getVarNamesForTests(run.tests),
-    summaries: run.envs.map((_, index) =>
-      readable(
-        summarizeResults(
-          run.results.map((row) => row[index]),
-          (r) => r.pass,
-        ),
-      ),
+    summaries: summarizeRows(run.results, run.envs.length, (r) => r.pass).map((summary) =>
+      readable(summary),
     ),
     results: run.results.map((row) =>
       row.map((res) => {
@@ -2,6 +2,7 @@ import * as esbuild from 'esbuild-wasm';
 import { FileReference } from './FileReference';
 import type { ReadonlyFileStorage } from '$lib/types/storage';
 import * as CodeSandbox from '$lib/utils/CodeSandbox';
+import type { StreamingExecutable } from '$lib/utils/CodeSandbox';
 import { blobToFileReference } from './dereferenceFilePaths';
 
 let esbuildReady: Promise<void> | undefined;
@@ -33,7 +34,7 @@ type Bundle = { result?: string } & (
 
 export class CodeReference extends FileReference {
   readonly #bundle: Bundle;
-  #execute?: Executable;
+  #execute?: StreamingExecutable;
 
   constructor(uri: string, file: File, storage?: ReadonlyFileStorage) {
     super(uri, file, 'code');
@@ -52,8 +53,12 @@ export class CodeReference extends FileReference {
     }
   }
   async bind(): Promise<Executable> {
+    const execute = await this.bindStreaming();
+    return (...args) => execute(args);
+  }
+  async bindStreaming(): Promise<StreamingExecutable> {
     if (!this.#execute) {
-      this.#execute = CodeSandbox.bind(await this.getCode());
+      this.#execute = CodeSandbox.bindStreaming(await this.getCode());
     }
     return this.#execute;
   }
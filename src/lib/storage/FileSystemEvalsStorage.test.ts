@@ -125,4 +125,70 @@ describe('FileSystemEvalsStorage', () => {
       }
     }
   });
+
+  test('rejects custom assertion types named like built-in types', async () => {
+    const storage = new InMemoryStorage();
+    await storage.writeFile(
+      'file:///config.yaml',
+      dedent`
+        prompts:
+          - "hello world"
+        providers:
+          - gemini:gemini-2.5-flash
+        assertionTypes:
+          contains:
+            code: "function execute() { return { pass: true }; }"
+          custom:
+            code: "function execute() { return { pass: true }; }"
+        `,
+    );
+    const fs = new FileSystemEvalsStorage(storage);
+    await expect(fs.getConfig()).rejects.toThrow(UiError);
+    try {
+      await fs.getConfig();
+    } catch (error) {
+      expect((error as UiError).detail).toEqual({
+        type: 'invalid-config',
+        errors: [
+          'assertionTypes.contains: Assertion type "contains" is built in, choose another name',
+        ],
+      });
+    }
+  });
+
+  test('rejects thresholds when every assertion weight is zero', async () => {
+    const storage = new InMemoryStorage();
+    await storage.writeFile(
+      'file:///config.yaml',
+      dedent`
+        prompts:
+          - "hello world"
+        providers:
+          - gemini:gemini-2.5-flash
+        defaultTest:
+          threshold: 0.5
+        tests:
+          - assert:
+              - type: contains
+                weight: 1
+                vars:
+                  needle: hello
+          - assert:
+              - type: contains
+                weight: 0
+                vars:
+                  needle: hello
+        `,
+    );
+    const fs = new FileSystemEvalsStorage(storage);
+    await expect(fs.getConfig()).rejects.toThrow(UiError);
+    try {
+      await fs.getConfig();
+    } catch (error) {
+      expect((error as UiError).detail).toEqual({
+        type: 'invalid-config',
+        errors: ['tests.1: At least one assertion needs a non-zero weight to use a threshold'],
+      });
+    }
+  });
 });
@@ -1,11 +1,16 @@
+import { CodeReference } from './CodeReference';
+import { UiError } from '$lib/types/errors';
 import type {
+  NormalizedAssertion,
+  NormalizedAssertionType,
   NormalizedConfig,
   NormalizedPipelineStep,
   NormalizedPrompt,
   NormalizedProvider,
+  NormalizedProviderType,
   NormalizedTestCase,
 } from '$lib/types';
-import type { FsConfig, FsPipelinePrompt, FsPrompt, FsTestCase } from './types';
+import type { FsConfig, FsDefaultTest, FsPipelinePrompt, FsPrompt, FsTestCase } from './types';
 import yaml from 'yaml';
 
 export function normalizeConfig(config: FsConfig): NormalizedConfig {
@@ -14,6 +19,10 @@ export function normalizeConfig(config: FsConfig): NormalizedConfig {
     providers: normalizeProviders(config.providers),
     prompts: normalizePrompts(config.prompts),
     tests: normalizeTestCases(config.tests, config.defaultTest),
+    assertionSets: normalizeAssertionSets(config.defaultTest?.assertionSets),
+    assertionTypes: normalizeAssertionTypes(config.assertionTypes),
+    providerTypes: normalizeProviderTypes(config.providerTypes),
+    pricing: config.pricing,
     options: config.options,
   };
 }
@@ -78,6 +87,48 @@ function normalizeProviders(providers: FsConfig['providers']): NormalizedProvide
   return normalized;
 }
 
+function normalizeAssertionSets(
+  assertionSets: FsDefaultTest['assertionSets'],
+): Record<string, NormalizedAssertion[]> | undefined {
+  if (!assertionSets) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(assertionSets).map(([name, asserts]) => [
+      name,
+      asserts.map((assert) => ({ ...assert, vars: assert.vars ?? {} })),
+    ]),
+  );
+}
+
+function normalizeAssertionTypes(
+  assertionTypes: FsConfig['assertionTypes'],
+): Record<string, NormalizedAssertionType> | undefined {
+  if (!assertionTypes) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(assertionTypes).map(([name, assertionType]) => [
+      name,
+      assertionType instanceof CodeReference ? { code: assertionType } : assertionType,
+    ]),
+  );
+}
+
+function normalizeProviderTypes(
+  providerTypes: FsConfig['providerTypes'],
+): Record<string, NormalizedProviderType> | undefined {
+  if (!providerTypes) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(providerTypes).map(([prefix, providerType]) => [
+      prefix,
+      providerType instanceof CodeReference ? { code: providerType } : providerType,
+    ]),
+  );
+}
+
 function normalizeTestCases(
   tests: FsConfig['tests'],
   defaultTest: FsConfig['defaultTest'],
@@ -85,7 +136,23 @@ function normalizeTestCases(
   if (!tests) {
     return [{ vars: {}, assert: [] }];
   }
-  return tests.map((test) => normalizeTestCase(test, defaultTest ?? {}));
+  return tests.map((test, index) => {
+    const result = normalizeTestCase(test, defaultTest ?? {});
+    // The weighted average score is undefined when every weight is zero
+    if (
+      result.threshold !== undefined &&
+      result.assert.length > 0 &&
+      result.assert.every((assert) => assert.weight === 0)
+    ) {
+      throw new UiError({
+        type: 'invalid-config',
+        errors: [
+          `tests.${index}: At least one assertion needs a non-zero weight to use a threshold`,
+        ],
+      });
+    }
+    return result;
+  });
 }
 
 function normalizeTestCase(test: FsTestCase, defaultTest: Partial<FsTestCase>): NormalizedTestCase {
@@ -93,10 +160,15 @@ function normalizeTestCase(test: FsTestCase, defaultTest: Partial<FsTestCase>):
     ...(defaultTest.vars ?? {}),
     ...(test.vars ?? {}),
   };
+  const transform = test.transform ?? defaultTest.transform;
   const assert: NormalizedTestCase['assert'] = [
     ...(defaultTest.assert ?? []),
     ...(test.assert ?? []),
-  ].map((assert) => ({ ...assert, vars: assert.vars ?? {} }));
+  ].map((assert) => ({
+    ...assert,
+    vars: assert.vars ?? {},
+    ...(transform !== undefined && assert.transform === undefined ? { transform } : {}),
+  }));
 
   const result: NormalizedTestCase = {
     description: test.description ?? defaultTest.description,
@@ -110,6 +182,9 @@ function normalizeTestCase(test: FsTestCase, defaultTest: Partial<FsTestCase>):
   if (test.repeat !== undefined || defaultTest.repeat !== undefined) {
     result.repeat = test.repeat ?? defaultTest.repeat;
   }
+  if (test.threshold !== undefined || defaultTest.threshold !== undefined) {
+    result.threshold = test.threshold ?? defaultTest.threshold;
+  }
 
   return result;
 }
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { CodeReference } from './CodeReference';
-import { globalOptionsSchema } from '$lib/types';
+import { globalOptionsSchema, pricingSchema, responseSchemaSchema } from '$lib/types';
+import { builtinAssertionTypes } from '$lib/assertions/AssertionManager';
 
 // Schemas & types for validating files match the expected structure
 
@@ -17,6 +18,9 @@ export const fsAssertionSchema = z
     description: z.string().optional(),
     vars: z.record(z.string(), z.unknown()).optional(),
     id: z.string().optional(),
+    weight: z.number().nonnegative().optional(),
+    transform: z.union([z.string(), z.instanceof(CodeReference)]).optional(),
+    step: z.string().optional(), // Pipeline step ID, or 'all'
   })
   .strict();
 export type FsAssertion = z.infer<typeof fsAssertionSchema>;
@@ -59,7 +63,13 @@ export const fsPipelinePromptSchema = z
   .strict();
 export const fsPromptSchema = z.union([
   z.string(),
-  z.object({ prompt: z.string(), providerLabel: z.string().optional() }).strict(),
+  z
+    .object({
+      prompt: z.string(),
+      providerLabel: z.string().optional(),
+      responseSchema: responseSchemaSchema.optional(),
+    })
+    .strict(),
   fsConvoPromptSchema,
   fsPipelinePromptSchema,
 ]);
@@ -74,10 +84,45 @@ export const fsTestCaseSchema = z
     assert: z.array(fsAssertionSchema).optional(),
     only: z.boolean().optional(),
     repeat: z.number().int().positive().optional(),
+    threshold: z.number().min(0).max(1).optional(),
+    transform: z.union([z.string(), z.instanceof(CodeReference)]).optional(),
   })
   .strict();
 export type FsTestCase = z.infer<typeof fsTestCaseSchema>;
 
+export const fsDefaultTestSchema = fsTestCaseSchema
+  .extend({
+    assertionSets: z.record(z.string(), z.array(fsAssertionSchema)).optional(),
+  })
+  .strict();
+export type FsDefaultTest = z.infer<typeof fsDefaultTestSchema>;
+
+export const fsAssertionTypeSchema = z.union([
+  z.instanceof(CodeReference),
+  z
+    .object({
+      code: z.union([z.string(), z.instanceof(CodeReference)]),
+      row: z.boolean().optional(),
+      schema: z.union([z.boolean(), z.record(z.string(), z.unknown())]).optional(),
+      description: z.string().optional(),
+    })
+    .strict(),
+]);
+export type FsAssertionType = z.infer<typeof fsAssertionTypeSchema>;
+
+export const fsProviderTypeSchema = z.union([
+  z.instanceof(CodeReference),
+  z
+    .object({
+      code: z.union([z.string(), z.instanceof(CodeReference)]),
+      env: z.array(z.string()).optional(),
+      schema: z.union([z.boolean(), z.record(z.string(), z.unknown())]).optional(),
+      description: z.string().optional(),
+    })
+    .strict(),
+]);
+export type FsProviderType = z.infer<typeof fsProviderTypeSchema>;
+
 export const fsGlobalOptionsSchema = globalOptionsSchema.strict();
 export type FsGlobalOptions = z.infer<typeof fsGlobalOptionsSchema>;
 
@@ -88,7 +133,18 @@ export const fsConfigSchema = z
     providers: z.array(fsProviderSchema).optional(),
     prompts: z.array(fsPromptSchema).optional(),
     tests: z.array(fsTestCaseSchema).optional(),
-    defaultTest: fsTestCaseSchema.optional(),
+    defaultTest: fsDefaultTestSchema.optional(),
+    assertionTypes: z
+      .record(
+        z.string().refine(
+          (name) => !builtinAssertionTypes.includes(name),
+          (name) => ({ message: `Assertion type "${name}" is built in, choose another name` }),
+        ),
+        fsAssertionTypeSchema,
+      )
+      .optional(),
+    providerTypes: z.record(z.string(), fsProviderTypeSchema).optional(),
+    pricing: z.record(z.string(), pricingSchema).optional(),
     options: fsGlobalOptionsSchema.optional(),
   })
   .strict();
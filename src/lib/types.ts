@@ -3,12 +3,14 @@ import { z } from 'zod';
 import { FileReference } from './storage/FileReference';
 import { CodeReference } from './storage/CodeReference';
 import type { Semaphore } from './utils/semaphore';
+import type { RateLimiter } from './utils/rateLimiter';
+import type { JsonSchema } from './utils/jsonSchema';
 
 const varSchema = z.any();
 
 const varSetSchema = z.record(z.string(), varSchema);
 
-const assertionSchema = z.object({
+export const assertionSchema = z.object({
   // Required
   type: z.string(),
 
@@ -16,9 +18,15 @@ const assertionSchema = z.object({
   description: z.string().optional(),
   vars: z.record(z.string(), z.unknown()).optional(),
   id: z.string().optional(),
+  weight: z.number().nonnegative().optional(),
+  transform: z.union([z.string(), z.instanceof(CodeReference)]).optional(),
+  step: z.string().optional(), // Pipeline step ID, or 'all'
 });
+export const responseSchemaSchema = z.record(z.string(), z.unknown());
 export const normalizedProviderConfigSchema = z.object({
   mimeTypes: z.array(z.string()).optional(),
+  // A JSON Schema for structured output, translated to each provider's own config
+  responseSchema: responseSchemaSchema.optional(),
 });
 export type NormalizedProviderConfig = z.infer<typeof normalizedProviderConfigSchema>;
 const normalizedProviderSchema = z.object({
@@ -45,6 +53,7 @@ const simplePromptSchema = z.string();
 const objectPromptSchema = z.object({
   prompt: z.string(),
   providerLabel: z.string().optional(),
+  responseSchema: responseSchemaSchema.optional(),
 });
 export const pipelinePromptSchema = z.object({
   $pipeline: z.array(
@@ -63,6 +72,28 @@ export const pipelinePromptSchema = z.object({
 });
 const promptSchema = z.union([simplePromptSchema, objectPromptSchema, pipelinePromptSchema]);
 
+// Dollars per million tokens. Cached, audio and image input default to the input rate.
+export const pricingSchema = z
+  .object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative(),
+    cachedInput: z.number().nonnegative().optional(),
+    cacheWrite: z.number().nonnegative().optional(),
+    audio: z.number().nonnegative().optional(),
+    image: z.number().nonnegative().optional(),
+  })
+  .strict();
+export type Pricing = z.infer<typeof pricingSchema>;
+
+export const rateLimitSchema = z
+  .object({
+    requestsPerMinute: z.number().positive().optional(),
+    tokensPerMinute: z.number().positive().optional(),
+    maxConcurrent: z.number().int().positive().optional(),
+  })
+  .strict();
+export type RateLimit = z.infer<typeof rateLimitSchema>;
+
 export const globalOptionsSchema = z.object({
   maxConcurrency: z.number().int().positive().optional(),
 });
@@ -76,7 +107,7 @@ export type NormalizedProvider = z.infer<typeof normalizedProviderSchema>;
 export type Provider = z.infer<typeof providerSchema>;
 export type NormalizedPrompt =
   | string
-  | { prompt: string; providerLabel?: string }
+  | { prompt: string; providerLabel?: string; responseSchema?: Record<string, unknown> }
   | NormalizedPipelinePrompt;
 export type NormalizedAssertion = Assertion & Required<Pick<Assertion, 'vars'>>;
 
@@ -86,6 +117,7 @@ export interface NormalizedTestCase {
   assert: NormalizedAssertion[];
   only?: boolean;
   repeat?: number;
+  threshold?: number;
   cacheKey?: Record<string, unknown>; // Used for resetting the cache
 }
 
@@ -94,29 +126,63 @@ export interface NormalizedConfig {
   providers: NormalizedProvider[];
   prompts: NormalizedPrompt[];
   tests: NormalizedTestCase[];
+  assertionSets?: Record<string, NormalizedAssertion[]>;
+  assertionTypes?: Record<string, NormalizedAssertionType>;
+  providerTypes?: Record<string, NormalizedProviderType>;
+  pricing?: Record<string, Pricing>; // Keyed by provider id, which may end with `*`
   options?: GlobalOptions;
 }
 
+export interface NormalizedAssertionType {
+  code: string | CodeReference;
+  row?: boolean;
+  schema?: JsonSchema; // Validates the assertion's vars
+  description?: string;
+}
+
+export interface NormalizedProviderType {
+  code: string | CodeReference;
+  env?: string[]; // Env vars the code needs, shown in the settings dialog
+  schema?: JsonSchema; // Validates the provider's config
+  description?: string;
+}
+
 // Output
 
-export const assertionResultSchema = z.object({
+const baseAssertionResultSchema = z.object({
   // Required
   pass: z.boolean(),
 
   // Optional
+  score: z.number().min(0).max(1).optional(),
   message: z.string().optional(),
   visuals: z.array(z.union([z.string(), z.instanceof(FileReference)])).optional(),
   outputs: z.record(z.string(), z.union([z.boolean(), z.number()])).optional(),
   id: z.string().optional(),
+  transformedOutput: z.string().optional(), // The output the assertion checked, if transformed
+  // Pairwise comparisons against other envs in the same row (opponent is the env index)
+  comparisons: z
+    .array(z.object({ opponent: z.number().int().nonnegative(), score: z.number().min(0).max(1) }))
+    .optional(),
+});
+export type AssertionResult = z.infer<typeof baseAssertionResultSchema> & {
+  children?: AssertionResult[]; // For composite assertions
+};
+export const assertionResultSchema = baseAssertionResultSchema.extend({
+  children: z.lazy((): z.ZodType<AssertionResult[]> => z.array(assertionResultSchema)).optional(),
 });
-export type AssertionResult = z.infer<typeof assertionResultSchema>;
 
-const tokenUsageSchema = z.object({
+export const tokenUsageSchema = z.object({
   // Optional
   inputTokens: z.number().int().optional(),
   outputTokens: z.number().int().optional(),
   totalTokens: z.number().int().optional(),
   costDollars: z.number().optional(),
+  // Parts of inputTokens that may be priced differently
+  cachedInputTokens: z.number().int().optional(),
+  cacheWriteInputTokens: z.number().int().optional(),
+  audioInputTokens: z.number().int().optional(),
+  imageInputTokens: z.number().int().optional(),
 });
 export type TokenUsage = z.infer<typeof tokenUsageSchema>;
 
@@ -164,6 +230,9 @@ const baseTestOutputSchema = z.object({
   rawOutput: z.unknown().optional(),
   output: providerOutputSchema.optional(),
   latencyMillis: z.number().optional(),
+  timeToFirstTokenMillis: z.number().optional(), // Only for streamed responses
+  outputTokensPerSecond: z.number().optional(),
+  cached: z.boolean().optional(), // The timings are from when the response was cached
   tokenUsage: tokenUsageSchema.optional(),
 
   // Error
@@ -179,6 +248,9 @@ const testResultSchema = testOutputSchema.extend({
   // Required
   pass: z.boolean(),
   assertionResults: z.array(assertionResultSchema),
+
+  // Optional
+  score: z.number().optional(),
 });
 export type TestResult = z.infer<typeof testResultSchema>;
 
@@ -189,6 +261,7 @@ const testCaseSchema = z.object({
   assert: z.array(assertionSchema).optional(),
   only: z.boolean().optional(),
   repeat: z.number().int().positive().optional(),
+  threshold: z.number().min(0).max(1).optional(),
   cacheKey: z.record(z.string(), z.unknown()).optional(),
 });
 export type TestCase = z.infer<typeof testCaseSchema>;
@@ -246,6 +319,8 @@ export interface RunContext {
   cache?: ModelCache;
   cacheKey?: Record<string, unknown>;
   session?: ModelSession;
+  // The cell being run, used to look up results when replaying a run
+  cell?: { test: NormalizedTestCase; prompt: NormalizedPrompt; stepId?: string };
 }
 
 export type ModelUpdate =
@@ -254,7 +329,8 @@ export type ModelUpdate =
       output: ProviderOutputPart;
       internalId?: string; // Unique ID for the update, used for history
     }
-  | { type: 'begin-stream'; internalId?: string };
+  | { type: 'begin-stream'; internalId?: string }
+  | { type: 'rate-limited'; internalId?: string }; // Waiting for the provider's rate limit
 
 // A con
 export interface ModelSession {
@@ -279,6 +355,7 @@ export interface ModelProvider {
   extractTokenUsage(response: unknown): TokenUsage;
   mimeTypes?: string[];
   requestSemaphore?: Semaphore;
+  rateLimiter?: RateLimiter; // Set by the ProviderManager
 }
 
 export interface TestEnvironment {
@@ -309,6 +386,7 @@ export interface CellAssertionProvider {
     context: {
       provider: TestEnvironment['provider'];
       prompt: TestEnvironment['prompt'];
+      testOutput: TestOutput; // Includes latency, token usage, raw output and history
     },
   ) => MaybePromise<AssertionResult>;
   destroy?: () => void;
@@ -329,14 +407,21 @@ export interface LiveResult {
   // Required
   rawPrompt?: unknown;
   state: 'waiting' | 'in-progress' | 'success' | 'error';
+  rateLimited?: boolean; // Waiting for a provider's rate limit
 
   // Success
-  history?: (Omit<LiveResult, 'state' | 'history' | 'assertionResults'> & { id: string })[];
+  history?: (Omit<LiveResult, 'state' | 'history' | 'assertionResults' | 'score'> & {
+    id: string;
+  })[];
   output?: ProviderOutputPart[];
   rawOutput?: unknown;
   latencyMillis?: number;
+  timeToFirstTokenMillis?: number;
+  outputTokensPerSecond?: number;
+  cached?: boolean;
   tokenUsage?: TokenUsage;
   assertionResults?: AssertionResult[];
+  score?: number;
 
   // Error
   error?: string;
@@ -362,6 +447,7 @@ export interface LiveRun {
 export interface AssertionStats {
   description: string;
   avgPass: number;
+  avgScore?: number;
   outputStats: Record<
     string,
     { type: 'boolean'; avgTrue: number } | { type: 'number'; avgNumber: number }
@@ -372,8 +458,13 @@ export interface SummaryStats {
   total: number;
   passed: number;
   failed: number;
+  avgScore?: number;
   avgLatencyMillis?: number;
+  avgTimeToFirstTokenMillis?: number;
+  avgOutputTokensPerSecond?: number;
+  cached?: number; // Results from the cache, which are left out of the timings
   avgCostDollars?: number;
+  rating?: number; // From pairwise assertions, see bradleyTerryRatings
   assertions: AssertionStats[];
 }
 
@@ -27,7 +27,12 @@ interface ResultResponse {
   result: unknown;
 }
 
-type Response = ErrorResponse | OkResponse | ResultResponse;
+interface YieldResponse {
+  type: 'yield';
+  value: unknown;
+}
+
+type Response = ErrorResponse | OkResponse | ResultResponse | YieldResponse;
 
 let loaded: Promise<HTMLIFrameElement> | null = null;
 let instance = 0;
@@ -62,6 +67,15 @@ function initIframe() {
                                 const callPort = port;
                                 try {
                                     const result = await execute(...args);
+                                    if (result && typeof result[Symbol.asyncIterator] === 'function' && typeof result.next === 'function') {
+                                        // Stream the values from async generators
+                                        let next;
+                                        while (!(next = await result.next()).done) {
+                                            callPort.postMessage({ type: 'yield', value: next.value });
+                                        }
+                                        callPort.postMessage({ type: 'result', result: next.value });
+                                        return;
+                                    }
                                     callPort.postMessage({ type: 'result', result });
                                 } catch (e) {
                                     callPort.postMessage({
@@ -95,11 +109,25 @@ function initIframe() {
   return loaded;
 }
 
+export type StreamingExecutable = (
+  args: unknown[],
+  onYield?: (value: unknown) => void,
+) => Promise<unknown>;
+
 export function bind(code: string): (...args: unknown[]) => Promise<unknown> {
+  const execute = bindStreaming(code);
+  return (...args: unknown[]) => execute(args);
+}
+
+/**
+ * Like bind, but if the function returns an async generator, each yielded
+ * value is passed to `onYield`, and the promise resolves to the return value.
+ */
+export function bindStreaming(code: string): StreamingExecutable {
   let codePortPromise: Promise<MessagePort> | null = null;
   let currentInstance: number;
 
-  return async (...args: unknown[]) => {
+  return async (args: unknown[], onYield?: (value: unknown) => void) => {
     while (currentInstance !== instance) {
       currentInstance = instance;
       codePortPromise = bindPort(code);
@@ -113,7 +141,9 @@ export function bind(code: string): (...args: unknown[]) => Promise<unknown> {
       const callPort = callPortChannel.port1;
       callPort.onmessage = (event) => {
         const data = event.data as Response;
-        if (data.type === 'result') {
+        if (data.type === 'yield') {
+          onYield?.(data.value);
+        } else if (data.type === 'result') {
           resolve(data.result);
         } else if (data.type === 'error') {
           const error = new Error(data.error);
@@ -17,7 +17,12 @@ import {
   type FunctionResponse,
   providerOutputSchema,
 } from '$lib/types';
-import { maybeUseCache, modelOutputToTestOutput } from './environmentHelpers';
+import {
+  getResponseTimings,
+  maybeUseCache,
+  modelOutputToTestOutput,
+  recordRateLimitTokens,
+} from './environmentHelpers';
 import { generator } from './generator';
 import { HandlebarsPromptFormatter } from './HandlebarsPromptFormatter';
 import { makeOrderedMerge } from './orderedMerge';
@@ -163,18 +168,19 @@ export class PipelineEnvironment implements TestEnvironment {
       // Run the prompt (or read from cache)
       const session = sessionId ? sessionManager.get(sessionId) : undefined;
 
-      const { output, tokenUsage, latencyMillis, finished, response, errorResult } = await runModel(
-        model,
-        prompt,
-        this.cache,
-        session,
-        sessionId ? (value: SessionState) => sessionManager.set(sessionId, value) : undefined,
-        context,
-        count,
-        (value: ModelUpdate) => {
-          modelUpdateGenerator.yield({ ...value, internalId: stepId });
-        },
-      );
+      const { output, tokenUsage, latencyMillis, timings, finished, response, errorResult } =
+        await runModel(
+          model,
+          prompt,
+          this.cache,
+          session,
+          sessionId ? (value: SessionState) => sessionManager.set(sessionId, value) : undefined,
+          context.cell ? { ...context, cell: { ...context.cell, stepId } } : context,
+          count,
+          (value: ModelUpdate) => {
+            modelUpdateGenerator.yield({ ...value, internalId: stepId });
+          },
+        );
       if (errorResult) {
         history.push({ id: stepId, ...errorResult });
         result = errorResult;
@@ -236,6 +242,7 @@ export class PipelineEnvironment implements TestEnvironment {
         rawOutput: response,
         output: output,
         latencyMillis: latencyMillis,
+        ...timings,
         tokenUsage: tokenUsage,
       };
       history.push({ id: stepId, ...stepResult });
@@ -291,6 +298,10 @@ export class PipelineEnvironment implements TestEnvironment {
           ...stepResult,
           history,
           latencyMillis: finished - start,
+          // Streaming metrics are per step, but the run is cached if every step was
+          timeToFirstTokenMillis: undefined,
+          outputTokensPerSecond: undefined,
+          cached: history.every((h) => h.cached) || undefined,
           tokenUsage: {
             costDollars: history
               .map((h) => h.tokenUsage?.costDollars)
@@ -491,6 +502,8 @@ async function runModel(
   };
   const generator = maybeUseCache(cache, cacheKey, runModel, model.requestSemaphore, {
     requireSession: setSession !== undefined, // If setSession is defined, we expect a session
+    rateLimiter: model.rateLimiter,
+    abortSignal: context.abortSignal,
   });
   let nextRes = await generator.next();
   while (!nextRes.done) {
@@ -502,7 +515,8 @@ async function runModel(
     }
     nextRes = await generator.next();
   }
-  const { response, latencyMillis, session: resSession } = nextRes.value;
+  const cacheOutput = nextRes.value;
+  const { response, latencyMillis, session: resSession, fromCache } = cacheOutput;
   const finished = Date.now();
 
   if (setSession) {
@@ -519,6 +533,9 @@ async function runModel(
     const rawOutput = await model.extractOutput(response);
     const output = await modelOutputToTestOutput(rawOutput);
     const tokenUsage = model.extractTokenUsage(response);
+    if (!fromCache) {
+      recordRateLimitTokens(model, tokenUsage);
+    }
 
     // Immediately yield the final output
     if (typeof output === 'string') {
@@ -530,7 +547,8 @@ async function runModel(
       }
     }
 
-    return { output, tokenUsage, latencyMillis, finished, response };
+    const timings = getResponseTimings(cacheOutput, tokenUsage);
+    return { output, tokenUsage, latencyMillis, timings, finished, response };
   } catch (e) {
     if (e instanceof Error) {
       return {
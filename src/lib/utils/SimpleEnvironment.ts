@@ -10,7 +10,13 @@ import type {
   ConversationPrompt,
   ModelCache,
 } from '$lib/types';
-import { maybeUseCache, modelOutputToTestOutput } from './environmentHelpers';
+import {
+  getResponseTimings,
+  maybeUseCache,
+  modelOutputToTestOutput,
+  recordRateLimitTokens,
+  type CacheOutput,
+} from './environmentHelpers';
 
 export interface Config {
   model: ModelProvider;
@@ -53,8 +59,7 @@ export class SimpleEnvironment implements TestEnvironment {
       throw e;
     }
 
-    let response: unknown;
-    let latencyMillis: number;
+    let cacheOutput: CacheOutput;
     try {
       const { request, runModel } = await this.model.run(prompt, context);
 
@@ -64,14 +69,13 @@ export class SimpleEnvironment implements TestEnvironment {
         ...(context.cacheKey ?? {}),
       };
 
-      const { response: cachedResponse, latencyMillis: cachedLatencyMillis } = yield* maybeUseCache(
+      cacheOutput = yield* maybeUseCache(
         this.cache,
         cacheKey,
         runModel,
         this.model.requestSemaphore,
+        { rateLimiter: this.model.rateLimiter, abortSignal: context.abortSignal },
       );
-      response = cachedResponse;
-      latencyMillis = cachedLatencyMillis;
     } catch (e) {
       if (e instanceof Error) {
         console.error('Error running model:', e);
@@ -82,12 +86,16 @@ export class SimpleEnvironment implements TestEnvironment {
       throw e;
     }
 
+    const { response, latencyMillis } = cacheOutput;
     let output: NonNullable<TestOutput['output']>;
     let tokenUsage: TokenUsage;
     try {
       const rawOutput = await this.model.extractOutput(response);
       output = await modelOutputToTestOutput(rawOutput);
       tokenUsage = this.model.extractTokenUsage(response);
+      if (!cacheOutput.fromCache) {
+        recordRateLimitTokens(this.model, tokenUsage);
+      }
 
       // Immediately yield the final output
       if (typeof output === 'string') {
@@ -115,6 +123,7 @@ export class SimpleEnvironment implements TestEnvironment {
       rawOutput: response,
       output,
       latencyMillis,
+      ...getResponseTimings(cacheOutput, tokenUsage),
       tokenUsage,
     };
   }
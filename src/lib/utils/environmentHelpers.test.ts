@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { getResponseTimings, maybeUseCache } from './environmentHelpers';
+import type { ModelCache } from '$lib/types';
+
+describe('maybeUseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('records the time to the first token', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const values = new Map<string, unknown>();
+    const cache: ModelCache = {
+      get: (key) => Promise.resolve(values.get(JSON.stringify(key))),
+      set: (key, value) => {
+        values.set(JSON.stringify(key), value);
+        return Promise.resolve();
+      },
+    };
+    const runModel = async function* () {
+      yield '';
+      vi.advanceTimersByTime(100);
+      yield 'Hello';
+      vi.advanceTimersByTime(400);
+      await Promise.resolve();
+      return { response: 'Hello' };
+    };
+
+    const generator = maybeUseCache(cache, 'key', runModel);
+    let next;
+    while (!(next = await generator.next()).done) {
+      // Skip updates
+    }
+    expect(next.value).toMatchObject({
+      latencyMillis: 500,
+      timeToFirstTokenMillis: 100,
+      fromCache: false,
+    });
+
+    const cached = await maybeUseCache(cache, 'key', runModel).next();
+    expect(cached.value).toMatchObject({ timeToFirstTokenMillis: 100, fromCache: true });
+  });
+});
+
+describe('getResponseTimings', () => {
+  test('measures output tokens per second from the first token', () => {
+    const cacheOutput = { latencyMillis: 1100, timeToFirstTokenMillis: 100, response: null };
+    expect(getResponseTimings({ ...cacheOutput, fromCache: false }, { outputTokens: 50 })).toEqual({
+      timeToFirstTokenMillis: 100,
+      outputTokensPerSecond: 50,
+      cached: undefined,
+    });
+    expect(getResponseTimings({ ...cacheOutput, fromCache: true }, {})).toEqual({
+      timeToFirstTokenMillis: 100,
+      outputTokensPerSecond: undefined,
+      cached: true,
+    });
+  });
+
+  test('uses the whole latency without streaming', () => {
+    expect(
+      getResponseTimings(
+        { latencyMillis: 2000, response: null, fromCache: false },
+        { outputTokens: 10 },
+      ),
+    ).toMatchObject({ outputTokensPerSecond: 5 });
+  });
+});
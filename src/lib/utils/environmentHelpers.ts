@@ -3,14 +3,18 @@ import type {
   ExtractedOutputPart,
   FunctionTool,
   ModelCache,
+  ModelProvider,
   ModelRunner,
   ModelSession,
   ModelUpdate,
   MultiPartPrompt,
+  TestOutput,
   TestResult,
+  TokenUsage,
 } from '$lib/types';
 import { z } from 'zod';
 import type { Semaphore } from './semaphore';
+import type { RateLimiter } from './rateLimiter';
 import { FileReference } from '$lib/storage/FileReference';
 
 const cacheValueSchemaV1 = z.object({
@@ -25,6 +29,7 @@ function isValidCacheValueV1(value: unknown): value is CacheValueV1 {
 const cacheValueSchemaV2 = z.object({
   version: z.literal(2),
   latencyMillis: z.number(),
+  timeToFirstTokenMillis: z.number().optional(),
   response: z.unknown(),
   sessionState: z.unknown(),
 });
@@ -38,6 +43,7 @@ type LatestCacheValue = CacheValueV2;
 
 export interface CacheOutput {
   latencyMillis: number;
+  timeToFirstTokenMillis?: number;
   response: unknown;
   fromCache: boolean;
   session?: ModelSession;
@@ -53,6 +59,7 @@ function getCacheOutput(cachedValue: unknown, options?: GetCacheOptions): CacheO
   if (isValidCacheValueV2(cachedValue) && 2 >= minVersion) {
     return {
       latencyMillis: cachedValue.latencyMillis,
+      timeToFirstTokenMillis: cachedValue.timeToFirstTokenMillis,
       response: cachedValue.response,
       session: cachedValue.sessionState ? { state: cachedValue.sessionState } : undefined,
       fromCache: true,
@@ -71,6 +78,8 @@ function getCacheOutput(cachedValue: unknown, options?: GetCacheOptions): CacheO
 
 export interface MaybeUseCacheOptions {
   requireSession?: boolean;
+  rateLimiter?: RateLimiter;
+  abortSignal?: AbortSignal;
 }
 
 export async function* maybeUseCache(
@@ -90,40 +99,92 @@ export async function* maybeUseCache(
     return cacheOutput;
   }
 
-  // Wait to acquire the semaphore before running the model
+  // Wait for the rate limit and semaphore before running the model
+  const rateLimiter = options?.rateLimiter;
+  if (rateLimiter && !rateLimiter.canAcquire()) {
+    yield { type: 'rate-limited' };
+  }
+  await rateLimiter?.acquire(options?.abortSignal);
   await semaphore?.acquire();
   yield { type: 'begin-stream' }; // Signal that we're starting the request
 
   let response: unknown;
   let session: ModelSession | undefined;
   let latencyMillis: number;
+  let timeToFirstTokenMillis: number | undefined;
   try {
     const start = Date.now();
-    const res = yield* runModel();
+    const generator = runModel();
+    let next = await generator.next();
+    while (!next.done) {
+      if (timeToFirstTokenMillis === undefined && isOutputUpdate(next.value)) {
+        timeToFirstTokenMillis = Date.now() - start;
+      }
+      yield next.value;
+      next = await generator.next();
+    }
+    const res = next.value;
     response = res.response;
     session = res.session;
     latencyMillis = Date.now() - start;
   } finally {
     // Release the semaphore after running the model
     semaphore?.release();
+    rateLimiter?.release();
   }
 
   const canCacheSession = !session?.skipCache;
   await cache?.set(key, {
     version: 2,
     latencyMillis,
+    timeToFirstTokenMillis,
     response,
     sessionState: canCacheSession ? session?.state : undefined,
   } satisfies LatestCacheValue);
 
   return {
     latencyMillis,
+    timeToFirstTokenMillis,
     response,
     session,
     fromCache: false,
   };
 }
 
+// Providers yield an empty string before streaming, which isn't output yet
+function isOutputUpdate(update: string | ModelUpdate): boolean {
+  if (typeof update === 'string') {
+    return update !== '';
+  }
+  return update.type === 'append' || update.type === 'replace';
+}
+
+/**
+ * Streaming metrics for a response. Output tokens per second is measured from
+ * the first token, or from the start for responses that aren't streamed.
+ */
+export function getResponseTimings(
+  { latencyMillis, timeToFirstTokenMillis, fromCache }: CacheOutput,
+  tokenUsage: TokenUsage,
+): Pick<TestOutput, 'timeToFirstTokenMillis' | 'outputTokensPerSecond' | 'cached'> {
+  const generationMillis = latencyMillis - (timeToFirstTokenMillis ?? 0);
+  return {
+    timeToFirstTokenMillis,
+    outputTokensPerSecond:
+      tokenUsage.outputTokens && generationMillis > 0
+        ? (tokenUsage.outputTokens * 1000) / generationMillis
+        : undefined,
+    cached: fromCache || undefined,
+  };
+}
+
+// Counts a response's tokens towards the provider's tokensPerMinute limit
+export function recordRateLimitTokens(model: ModelProvider, tokenUsage: TokenUsage) {
+  const count =
+    tokenUsage.totalTokens ?? (tokenUsage.inputTokens ?? 0) + (tokenUsage.outputTokens ?? 0);
+  model.rateLimiter?.recordTokens(count);
+}
+
 export async function modelOutputToTestOutput(
   output: string | ExtractedOutputPart[],
 ): Promise<NonNullable<TestResult['output']>> {
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
-import { exponentialBackoff, shouldRetryHttpError, HttpError } from './exponentialBackoff';
+import {
+  exponentialBackoff,
+  shouldRetryHttpError,
+  HttpError,
+  parseRetryAfter,
+} from './exponentialBackoff';
 
 describe('exponentialBackoff', () => {
   afterEach(() => {
@@ -160,6 +165,47 @@ describe('exponentialBackoff', () => {
     expect(fn).toHaveBeenCalledTimes(2); // Initial call + 1 retry
     expect(shouldRetry).toHaveBeenCalledTimes(1);
   });
+
+  it('should wait at least as long as the server asked', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new HttpError('Too Many Requests', 429, 20))
+      .mockResolvedValue('success');
+    const onRetry = vi.fn();
+
+    await exponentialBackoff(fn, { onRetry, initialDelay: 1, maxRetries: 1 });
+
+    expect(onRetry.mock.calls[0][2]).toBe(20);
+  });
+
+  it('should cap the server delay at maxDelay', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new HttpError('Too Many Requests', 429, 60000))
+      .mockResolvedValue('success');
+    const onRetry = vi.fn();
+
+    await exponentialBackoff(fn, { onRetry, initialDelay: 1, maxDelay: 30, maxRetries: 1 });
+
+    expect(onRetry.mock.calls[0][2]).toBe(30);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds, dates and milliseconds', () => {
+    vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    expect(parseRetryAfter(new Headers({ 'retry-after': '2' }))).toBe(2000);
+    expect(parseRetryAfter(new Headers({ 'retry-after': 'Mon, 01 Jan 2024 00:00:05 GMT' }))).toBe(
+      5000,
+    );
+    expect(parseRetryAfter(new Headers({ 'retry-after-ms': '150', 'retry-after': '1' }))).toBe(150);
+    vi.useRealTimers();
+  });
+
+  it('should ignore missing or invalid headers', () => {
+    expect(parseRetryAfter(new Headers())).toBeUndefined();
+    expect(parseRetryAfter(new Headers({ 'retry-after': 'soon' }))).toBeUndefined();
+  });
 });
 
 describe('HttpError', () => {
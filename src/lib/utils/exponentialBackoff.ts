@@ -51,15 +51,18 @@ interface BackoffOptions {
 const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
 
 /**
- * HTTP Error class that includes the HTTP status code.
+ * HTTP Error class that includes the HTTP status code, and how long the server
+ * asked us to wait before retrying.
  */
 export class HttpError extends Error {
   public readonly status: number;
+  public readonly retryAfterMillis?: number;
 
-  constructor(message: string, status: number) {
+  constructor(message: string, status: number, retryAfterMillis?: number) {
     super(message);
     this.name = 'HttpError';
     this.status = status;
+    this.retryAfterMillis = retryAfterMillis;
 
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     try {
@@ -73,6 +76,28 @@ export class HttpError extends Error {
   }
 }
 
+/**
+ * Parses the `Retry-After` header (seconds or an HTTP date), or the
+ * `retry-after-ms` header sent by some APIs.
+ * @returns The delay in milliseconds, or undefined if there is no valid header
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const millis = Number(headers.get('retry-after-ms') ?? NaN);
+  if (Number.isFinite(millis) && millis >= 0) {
+    return millis;
+  }
+  const value = headers.get('retry-after');
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
 /**
  * Determines if an HTTP error should be retried based on the status code.
  * Only retries for 429 (Too Many Requests) and 5xx (Server Error) status codes.
@@ -156,9 +181,12 @@ export async function exponentialBackoff<T>(
         throw lastError;
       }
 
-      // Calculate the next delay
+      // Calculate the next delay, waiting at least as long as the server asked, up to maxDelay
       const jitterFactor = 1 - jitter + jitter * Math.random();
-      const delay = Math.min(initialDelay * Math.pow(factor, attempt) * jitterFactor, maxDelay);
+      let delay = Math.min(initialDelay * Math.pow(factor, attempt) * jitterFactor, maxDelay);
+      if (error instanceof HttpError && error.retryAfterMillis !== undefined) {
+        delay = Math.max(delay, Math.min(error.retryAfterMillis, maxDelay));
+      }
 
       // Call the onRetry callback if it's provided
       if (onRetry) {
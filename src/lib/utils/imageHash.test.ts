@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest';
+import { differenceHash, formatHash, hammingDistance, HASH_HEIGHT, HASH_WIDTH } from './imageHash';
+
+function createPixels(brightness: (x: number, y: number) => number): number[] {
+  const pixels: number[] = [];
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH; x++) {
+      const v = brightness(x, y);
+      pixels.push(v, v, v, 255);
+    }
+  }
+  return pixels;
+}
+
+describe('differenceHash', () => {
+  test('sets bits where brightness decreases', () => {
+    expect(differenceHash(createPixels((x) => x * 10))).toBe(0n);
+    expect(formatHash(differenceHash(createPixels((x) => 255 - x * 10)))).toBe('ffffffffffffffff');
+  });
+  test('is stable under small changes in brightness', () => {
+    const a = differenceHash(createPixels((x, y) => (x * 37 + y * 11) % 200));
+    const b = differenceHash(createPixels((x, y) => ((x * 37 + y * 11) % 200) + 20));
+    expect(hammingDistance(a, b)).toBe(0);
+  });
+  test('rejects pixels of the wrong size', () => {
+    expect(() => differenceHash([0, 0, 0, 255])).toThrow('Expected 9x8 RGBA pixels');
+  });
+});
+
+describe('hammingDistance', () => {
+  test('counts differing bits', () => {
+    expect(hammingDistance(0n, 0n)).toBe(0);
+    expect(hammingDistance(0b1011n, 0b0001n)).toBe(2);
+    expect(hammingDistance(0xffffffffffffffffn, 0n)).toBe(64);
+  });
+});
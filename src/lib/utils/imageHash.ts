@@ -0,0 +1,67 @@
+/**
+ * Perceptual image hashing (dHash). Similar images have hashes with a small
+ * Hamming distance, even after resizing or recompression.
+ */
+
+export const HASH_WIDTH = 9;
+export const HASH_HEIGHT = 8;
+export const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+
+export interface ImageInfo {
+  width: number;
+  height: number;
+  hash: bigint;
+}
+
+/**
+ * Computes the difference hash from RGBA pixels of an image already scaled
+ * to HASH_WIDTH x HASH_HEIGHT. Each bit records whether a pixel is brighter
+ * than its right neighbour.
+ */
+export function differenceHash(rgba: ArrayLike<number>): bigint {
+  if (rgba.length !== HASH_WIDTH * HASH_HEIGHT * 4) {
+    throw new Error(`Expected ${HASH_WIDTH}x${HASH_HEIGHT} RGBA pixels`);
+  }
+  const luminance = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+  };
+  let hash = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      hash = (hash << 1n) | (luminance(x, y) > luminance(x + 1, y) ? 1n : 0n);
+    }
+  }
+  return hash;
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+export function formatHash(hash: bigint): string {
+  return hash.toString(16).padStart(HASH_BITS / 4, '0');
+}
+
+/** Decodes an image in the browser, returning its dimensions and hash. */
+export async function getImageInfo(file: Blob): Promise<ImageInfo> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const canvas = new OffscreenCanvas(HASH_WIDTH, HASH_HEIGHT);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create canvas context');
+    }
+    ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    return { width: bitmap.width, height: bitmap.height, hash: differenceHash(data) };
+  } finally {
+    bitmap.close();
+  }
+}
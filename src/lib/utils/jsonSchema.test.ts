@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'vitest';
+import { validateJsonSchema } from './jsonSchema';
+
+describe('validateJsonSchema', () => {
+  test('validates types and required properties', function () {
+    const schema = {
+      type: 'object',
+      properties: { name: { type: 'string' }, age: { type: 'integer' } },
+      required: ['name', 'age'],
+    };
+    expect(validateJsonSchema({ name: 'Ada', age: 36 }, schema)).toEqual([]);
+    expect(validateJsonSchema({ name: 'Ada', age: 36.5 }, schema)).toEqual([
+      { path: '$.age', message: 'expected integer, got number' },
+    ]);
+    expect(validateJsonSchema({ age: 36 }, schema)).toEqual([
+      { path: '$.name', message: 'is required' },
+    ]);
+  });
+  test('reports paths inside arrays', function () {
+    const schema = {
+      type: 'array',
+      items: { type: 'object', properties: { tags: { type: 'array', items: { enum: ['a'] } } } },
+    };
+    expect(validateJsonSchema([{ tags: ['a'] }, { tags: ['a', 'b'] }], schema)).toEqual([
+      { path: '$[1].tags[1]', message: 'must be one of "a"' },
+    ]);
+  });
+  test('supports additionalProperties and local refs', function () {
+    const schema = {
+      $defs: { id: { type: 'string', pattern: '^[0-9]+$' } },
+      type: 'object',
+      properties: { id: { $ref: '#/$defs/id' } },
+      additionalProperties: false,
+    };
+    expect(validateJsonSchema({ id: '42' }, schema)).toEqual([]);
+    expect(validateJsonSchema({ id: 'x', 'extra key': 1 }, schema)).toEqual([
+      { path: '$.id', message: 'must match pattern "^[0-9]+$"' },
+      { path: '$["extra key"]', message: 'is not an allowed property' },
+    ]);
+  });
+  test('supports combinators', function () {
+    const schema = { anyOf: [{ type: 'string' }, { type: 'number', minimum: 0 }] };
+    expect(validateJsonSchema(3, schema)).toEqual([]);
+    expect(validateJsonSchema(-3, schema)).toEqual([
+      { path: '$', message: 'does not match any of the allowed schemas (anyOf)' },
+    ]);
+  });
+});
@@ -0,0 +1,279 @@
+export type JsonSchema = boolean | Record<string, unknown>;
+
+export interface JsonSchemaError {
+  path: string; // JSONPath-style, e.g. $.items[0].name
+  message: string;
+}
+
+/**
+ * Validates a value against a JSON Schema. Supports the commonly used subset
+ * of the spec: types, enum/const, object/array/string/number constraints,
+ * combinators and local `$ref`s (`#/definitions/...` or `#/$defs/...`).
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): JsonSchemaError[] {
+  const errors: JsonSchemaError[] = [];
+  validate(value, schema, '$', schema, errors);
+  return errors;
+}
+
+export function formatJsonSchemaErrors(errors: JsonSchemaError[]): string {
+  return errors.map((e) => `${e.path}: ${e.message}`).join('\n');
+}
+
+function validate(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: JsonSchemaError[],
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push({ path, message: 'no value is allowed here' });
+    return;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    validate(value, resolveRef(schema.$ref, root), path, root, errors);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push({ path, message: `expected ${types.join(' or ')}, got ${getType(value)}` });
+      // Further checks would only produce noise
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((e) => deepEquals(e, value))) {
+    errors.push({
+      path,
+      message: `must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(', ')}`,
+    });
+  }
+  if ('const' in schema && !deepEquals(schema.const, value)) {
+    errors.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    validateString(value, schema, path, errors);
+  } else if (typeof value === 'number') {
+    validateNumber(value, schema, path, errors);
+  } else if (Array.isArray(value)) {
+    validateArray(value, schema, path, root, errors);
+  } else if (typeof value === 'object' && value !== null) {
+    validateObject(value as Record<string, unknown>, schema, path, root, errors);
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf as JsonSchema[]) {
+      validate(value, sub, path, root, errors);
+    }
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const subs = schema.anyOf as JsonSchema[];
+    if (!subs.some((sub) => validateJsonSchemaFrom(value, sub, path, root).length === 0)) {
+      errors.push({ path, message: 'does not match any of the allowed schemas (anyOf)' });
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const subs = schema.oneOf as JsonSchema[];
+    const matches = subs.filter(
+      (sub) => validateJsonSchemaFrom(value, sub, path, root).length === 0,
+    ).length;
+    if (matches !== 1) {
+      errors.push({
+        path,
+        message: `must match exactly one schema (oneOf), but matched ${matches}`,
+      });
+    }
+  }
+  if (schema.not !== undefined) {
+    if (validateJsonSchemaFrom(value, schema.not as JsonSchema, path, root).length === 0) {
+      errors.push({ path, message: 'must not match the schema (not)' });
+    }
+  }
+}
+
+function validateJsonSchemaFrom(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+): JsonSchemaError[] {
+  const errors: JsonSchemaError[] = [];
+  validate(value, schema, path, root, errors);
+  return errors;
+}
+
+function validateString(
+  value: string,
+  schema: Record<string, unknown>,
+  path: string,
+  errors: JsonSchemaError[],
+) {
+  const length = Array.from(value).length; // Count code points, per the spec
+  if (typeof schema.minLength === 'number' && length < schema.minLength) {
+    errors.push({ path, message: `must have at least ${schema.minLength} characters` });
+  }
+  if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+    errors.push({ path, message: `must have at most ${schema.maxLength} characters` });
+  }
+  if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+    errors.push({ path, message: `must match pattern "${schema.pattern}"` });
+  }
+}
+
+function validateNumber(
+  value: number,
+  schema: Record<string, unknown>,
+  path: string,
+  errors: JsonSchemaError[],
+) {
+  if (typeof schema.minimum === 'number' && value < schema.minimum) {
+    errors.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+  if (typeof schema.maximum === 'number' && value > schema.maximum) {
+    errors.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+    errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+    errors.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+  }
+  if (typeof schema.multipleOf === 'number' && !Number.isInteger(value / schema.multipleOf)) {
+    errors.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+  }
+}
+
+function validateArray(
+  value: unknown[],
+  schema: Record<string, unknown>,
+  path: string,
+  root: JsonSchema,
+  errors: JsonSchemaError[],
+) {
+  if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+    errors.push({ path, message: `must have at least ${schema.minItems} items` });
+  }
+  if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+    errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+  }
+  if (schema.uniqueItems === true) {
+    const duplicate = value.findIndex((v, i) => value.findIndex((w) => deepEquals(v, w)) !== i);
+    if (duplicate !== -1) {
+      errors.push({ path: `${path}[${duplicate}]`, message: 'duplicate item' });
+    }
+  }
+
+  let offset = 0;
+  if (Array.isArray(schema.prefixItems)) {
+    const prefix = schema.prefixItems as JsonSchema[];
+    prefix.forEach((sub, i) => {
+      if (i < value.length) validate(value[i], sub, `${path}[${i}]`, root, errors);
+    });
+    offset = prefix.length;
+  }
+  if (schema.items !== undefined && !Array.isArray(schema.items)) {
+    for (let i = offset; i < value.length; i++) {
+      validate(value[i], schema.items as JsonSchema, `${path}[${i}]`, root, errors);
+    }
+  }
+  if (schema.contains !== undefined) {
+    const sub = schema.contains as JsonSchema;
+    if (!value.some((v, i) => validateJsonSchemaFrom(v, sub, `${path}[${i}]`, root).length === 0)) {
+      errors.push({ path, message: 'must contain a matching item' });
+    }
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: Record<string, unknown>,
+  path: string,
+  root: JsonSchema,
+  errors: JsonSchemaError[],
+) {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  if (Array.isArray(schema.required)) {
+    for (const key of schema.required as string[]) {
+      if (!(key in value)) {
+        errors.push({ path: childPath(path, key), message: 'is required' });
+      }
+    }
+  }
+  const keys = Object.keys(value);
+  if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+    errors.push({ path, message: `must have at least ${schema.minProperties} properties` });
+  }
+  if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+    errors.push({ path, message: `must have at most ${schema.maxProperties} properties` });
+  }
+  for (const key of keys) {
+    if (key in properties) {
+      validate(value[key], properties[key], childPath(path, key), root, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: childPath(path, key), message: 'is not an allowed property' });
+    } else if (
+      typeof schema.additionalProperties === 'object' &&
+      schema.additionalProperties !== null
+    ) {
+      validate(
+        value[key],
+        schema.additionalProperties as JsonSchema,
+        childPath(path, key),
+        root,
+        errors,
+      );
+    }
+  }
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Only local $refs are supported: ${ref}`);
+  }
+  let current: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (typeof current !== 'object' || current === null || !(key in current)) {
+      throw new Error(`Unable to resolve $ref: ${ref}`);
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current as JsonSchema;
+}
+
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number';
+    default:
+      return getType(value) === type;
+  }
+}
+
+function getType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function deepEquals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((key) =>
+    deepEquals((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+  );
+}
@@ -0,0 +1,34 @@
+import { describe, test, expect } from 'vitest';
+import { bradleyTerryRatings } from './pairwiseRatings';
+
+describe('bradleyTerryRatings', () => {
+  test('rates players by their wins', () => {
+    const [a, b, c] = bradleyTerryRatings(3, [
+      { a: 0, b: 1, score: 1 },
+      { a: 0, b: 2, score: 1 },
+      { a: 1, b: 2, score: 1 },
+      { a: 1, b: 2, score: 0.5 },
+    ]);
+    expect(a).toBeGreaterThan(b ?? Infinity);
+    expect(b).toBeGreaterThan(c ?? Infinity);
+  });
+  test('centers ratings on 1000', () => {
+    const ratings = bradleyTerryRatings(2, [
+      { a: 0, b: 1, score: 1 },
+      { a: 0, b: 1, score: 0 },
+    ]);
+    expect(ratings[0]).toBeCloseTo(1000);
+    expect(ratings[1]).toBeCloseTo(1000);
+  });
+  test('stays finite when a player wins every comparison', () => {
+    const ratings = bradleyTerryRatings(2, [
+      { a: 0, b: 1, score: 1 },
+      { a: 0, b: 1, score: 1 },
+    ]);
+    expect(Number.isFinite(ratings[0])).toBe(true);
+    expect((ratings[0] ?? 0) + (ratings[1] ?? 0)).toBeCloseTo(2000);
+  });
+  test('skips players without comparisons', () => {
+    expect(bradleyTerryRatings(3, [{ a: 0, b: 2, score: 0.5 }])).toEqual([1000, undefined, 1000]);
+  });
+});
@@ -0,0 +1,52 @@
+export interface PairwiseComparison {
+  a: number;
+  b: number;
+  score: number; // For a: 1 is a win, 0 is a loss, 0.5 is a tie
+}
+
+const ITERATIONS = 200;
+
+/**
+ * Fits a Bradley-Terry model to pairwise comparisons, and returns ratings on
+ * the Elo scale (centered on 1000, where a 400 point difference means 10:1
+ * odds of winning). Players without comparisons get no rating.
+ *
+ * Unlike Elo updates, the result doesn't depend on the order of comparisons.
+ * Each player gets one virtual tie against an average player, so the ratings
+ * stay finite when a player wins or loses every comparison.
+ */
+export function bradleyTerryRatings(
+  playerCount: number,
+  comparisons: PairwiseComparison[],
+): (number | undefined)[] {
+  const wins = new Array<number>(playerCount).fill(0);
+  const games = Array.from({ length: playerCount }, () => new Array<number>(playerCount).fill(0));
+  const played = new Array<boolean>(playerCount).fill(false);
+  for (const { a, b, score } of comparisons) {
+    wins[a] += score;
+    wins[b] += 1 - score;
+    games[a][b] += 1;
+    games[b][a] += 1;
+    played[a] = played[b] = true;
+  }
+
+  let strengths = new Array<number>(playerCount).fill(1);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const next = strengths.map((p, i) => {
+      // The virtual tie against a player with strength 1
+      let denominator = 1 / (p + 1);
+      for (let j = 0; j < playerCount; j++) {
+        if (games[i][j] > 0) {
+          denominator += games[i][j] / (p + strengths[j]);
+        }
+      }
+      return (wins[i] + 0.5) / denominator;
+    });
+    // Normalize so the geometric mean of the players with comparisons is 1
+    const logs = next.filter((_, i) => played[i]).map((p) => Math.log(p));
+    const mean = logs.length > 0 ? logs.reduce((a, b) => a + b, 0) / logs.length : 0;
+    strengths = next.map((p) => p / Math.exp(mean));
+  }
+
+  return strengths.map((p, i) => (played[i] ? 1000 + 400 * Math.log10(p) : undefined));
+}
@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'vitest';
+import { detectPii, isValidIban, isValidLuhn } from './piiDetectors';
+
+function categories(text: string) {
+  return detectPii(text).map((m) => [m.category, m.value]);
+}
+
+describe('detectPii', () => {
+  test('detects emails and phone numbers', () => {
+    expect(categories('Email jane.doe@example.com or call +1 (555) 123-4567.')).toEqual([
+      ['email', 'jane.doe@example.com'],
+      ['phone', '+1 (555) 123-4567'],
+    ]);
+  });
+  test('only reports card numbers that pass the Luhn check', () => {
+    expect(categories('Card: 4111 1111 1111 1111')).toEqual([
+      ['credit-card', '4111 1111 1111 1111'],
+    ]);
+    expect(categories('Order 4111111111111112 shipped')).toEqual([]);
+  });
+  test('detects IBANs, IP addresses and API keys', () => {
+    expect(categories('Pay GB82 WEST 1234 5698 7654 32 from 192.168.0.1')).toEqual([
+      ['iban', 'GB82 WEST 1234 5698 7654 32'],
+      ['ip-address', '192.168.0.1'],
+    ]);
+    expect(categories('Use fe80::1ff:fe23:4567:890a')).toEqual([
+      ['ip-address', 'fe80::1ff:fe23:4567:890a'],
+    ]);
+    expect(categories('key: sk-abcdefghijklmnopqrstuvwxyz123456')).toEqual([
+      ['api-key', 'sk-abcdefghijklmnopqrstuvwxyz123456'],
+    ]);
+    expect(categories('api_key = "Zx9qL2mN8pR4tV6wY1aB"')).toEqual([
+      ['api-key', 'Zx9qL2mN8pR4tV6wY1aB'],
+    ]);
+  });
+  test('ignores ordinary numbers and dates', () => {
+    expect(categories('In 2024-01-15 we sold 1234567 units at 3.50 each, up 12.5%.')).toEqual([]);
+  });
+  test('filters categories and matches the denylist', () => {
+    const matches = detectPii(
+      'Contact Project Falcon at falcon@example.com',
+      ['phone'],
+      ['project falcon'],
+    );
+    expect(matches).toEqual([{ category: 'denylist', value: 'Project Falcon', start: 8, end: 22 }]);
+  });
+});
+
+describe('checksums', () => {
+  test('isValidLuhn', () => {
+    expect(isValidLuhn('4111111111111111')).toBe(true);
+    expect(isValidLuhn('4111111111111112')).toBe(false);
+  });
+  test('isValidIban', () => {
+    expect(isValidIban('DE89 3704 0044 0532 0130 00')).toBe(true);
+    expect(isValidIban('DE89 3704 0044 0532 0130 01')).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Offline detectors for personally identifiable information and secrets.
+ * These are heuristics: they favour catching leaks over precision, but use
+ * checksums (Luhn, IBAN mod-97) where available to reduce false positives.
+ */
+
+export const PII_CATEGORIES = [
+  'email',
+  'phone',
+  'credit-card',
+  'iban',
+  'ip-address',
+  'api-key',
+] as const;
+export type PiiCategory = (typeof PII_CATEGORIES)[number] | 'denylist';
+
+export interface PiiMatch {
+  category: PiiCategory;
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface Detector {
+  pattern: RegExp;
+  validate?: (value: string) => boolean;
+}
+
+// Ordered so that more specific detectors claim a span before general ones
+// (e.g. a card number is not also reported as a phone number)
+const DETECTORS: [PiiCategory, Detector][] = [
+  [
+    'api-key',
+    {
+      pattern:
+        /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,})|(?<=\b(?:api[_-]?key|secret|token|password)["']?\s*[:=]\s*["']?)[A-Za-z0-9_\-+/]{16,}/gi,
+    },
+  ],
+  ['email', { pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g }],
+  [
+    'iban',
+    {
+      pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+      validate: isValidIban,
+    },
+  ],
+  [
+    'credit-card',
+    {
+      pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+      validate: (value) => isValidLuhn(value.replace(/\D/g, '')),
+    },
+  ],
+  [
+    'ip-address',
+    {
+      pattern:
+        /\b(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\b|\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b|\b(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4})*)?/gi,
+    },
+  ],
+  [
+    'phone',
+    {
+      pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}\b/g,
+      validate: (value) => {
+        const digits = value.replace(/\D/g, '').length;
+        // Require separators or a country code, so plain numbers aren't matched
+        return (
+          digits >= 7 &&
+          digits <= 15 &&
+          (/[\s.()-]/.test(value) || value.startsWith('+')) &&
+          !isDate(value)
+        );
+      },
+    },
+  ],
+];
+
+export function detectPii(
+  text: string,
+  categories: readonly PiiCategory[] = PII_CATEGORIES,
+  denylist: string[] = [],
+): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  const overlaps = (start: number, end: number) =>
+    matches.some((m) => start < m.end && end > m.start);
+
+  const lowerText = text.toLocaleLowerCase();
+  for (const term of denylist) {
+    const needle = term.toLocaleLowerCase();
+    if (needle.length === 0) continue;
+    for (let i = lowerText.indexOf(needle); i >= 0; i = lowerText.indexOf(needle, i + 1)) {
+      if (!overlaps(i, i + needle.length)) {
+        matches.push({
+          category: 'denylist',
+          value: text.slice(i, i + needle.length),
+          start: i,
+          end: i + needle.length,
+        });
+      }
+    }
+  }
+
+  for (const [category, { pattern, validate }] of DETECTORS) {
+    if (!categories.includes(category)) continue;
+    for (const match of text.matchAll(pattern)) {
+      const value = match[0];
+      const start = match.index;
+      const end = start + value.length;
+      if (overlaps(start, end) || (validate && !validate(value))) continue;
+      matches.push({ category, value, start, end });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+function isDate(value: string): boolean {
+  return /^(?:\d{4}[./-]\d{1,2}[./-]\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})$/.test(value);
+}
+
+export function isValidLuhn(digits: string): boolean {
+  if (!/^\d{13,19}$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/ /g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  // Move the country code and check digits to the end, then convert letters to numbers
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = parseInt(char, 36);
+    remainder = (value > 9 ? remainder * 100 + value : remainder * 10 + value) % 97;
+  }
+  return remainder === 1;
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { RateLimiter } from './rateLimiter';
+
+// Resolves to the number of acquired requests once pending timers have run
+async function countAcquired(promises: Promise<void>[]): Promise<number> {
+  let count = 0;
+  for (const promise of promises) {
+    void promise.then(() => count++);
+  }
+  await vi.advanceTimersByTimeAsync(0);
+  return count;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('does not wait without limits', async () => {
+    const limiter = new RateLimiter();
+    expect(await countAcquired([limiter.acquire(), limiter.acquire()])).toBe(2);
+    expect(limiter.canAcquire()).toBe(true);
+  });
+
+  test('limits requests per minute', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+    const acquired = [limiter.acquire(), limiter.acquire(), limiter.acquire()];
+    expect(await countAcquired(acquired)).toBe(2);
+    expect(limiter.canAcquire()).toBe(false);
+
+    // Finishing a request doesn't free up the window
+    limiter.release();
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(await countAcquired(acquired)).toBe(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await countAcquired(acquired)).toBe(3);
+  });
+
+  test('limits concurrent requests', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const acquired = [limiter.acquire(), limiter.acquire()];
+    expect(await countAcquired(acquired)).toBe(1);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(await countAcquired(acquired)).toBe(1);
+    limiter.release();
+    expect(await countAcquired(acquired)).toBe(2);
+  });
+
+  test('limits tokens per minute', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 100 });
+    await limiter.acquire();
+    limiter.recordTokens(60);
+    limiter.release();
+    expect(limiter.canAcquire()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    limiter.recordTokens(60);
+    expect(limiter.canAcquire()).toBe(false);
+
+    // Waits until the first usage leaves the window
+    const acquired = [limiter.acquire()];
+    await vi.advanceTimersByTimeAsync(49_999);
+    expect(await countAcquired(acquired)).toBe(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await countAcquired(acquired)).toBe(1);
+  });
+
+  test('stops waiting when aborted', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    const controller = new AbortController();
+    await limiter.acquire();
+    const aborted = limiter.acquire(controller.signal);
+    const next = limiter.acquire();
+    controller.abort();
+    await expect(aborted).rejects.toThrow('aborted');
+
+    // The aborted request doesn't use up the next slot
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(await countAcquired([next])).toBe(1);
+    await expect(limiter.acquire(controller.signal)).rejects.toThrow('aborted');
+  });
+
+  test('uses updated limits', async () => {
+    const limiter = new RateLimiter();
+    limiter.limits = { maxConcurrent: 1 };
+    const acquired = [limiter.acquire(), limiter.acquire()];
+    expect(await countAcquired(acquired)).toBe(1);
+  });
+});
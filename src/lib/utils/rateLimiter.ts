@@ -0,0 +1,103 @@
+import type { RateLimit } from '$lib/types';
+
+const WINDOW_MILLIS = 60_000;
+
+/**
+ * Limits the requests made to a provider, shared by every environment and
+ * assertion that uses it. Requests wait until they fit within the limits.
+ * Token usage is only known after a request, so `tokensPerMinute` blocks new
+ * requests once the usage reported over the last minute reaches the limit.
+ */
+export class RateLimiter {
+  private active = 0;
+  private requests: number[] = []; // Start times
+  private tokens: { time: number; count: number }[] = [];
+  private queue: (() => void)[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    public limits: RateLimit = {},
+    private now: () => number = Date.now,
+  ) {}
+
+  // Whether a request can start without waiting
+  canAcquire(): boolean {
+    return this.queue.length === 0 && this.getWaitMillis() === 0;
+  }
+
+  async acquire(abortSignal?: AbortSignal): Promise<void> {
+    abortSignal?.throwIfAborted();
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        // Stop waiting, without taking a request
+        this.queue = this.queue.filter((waiter) => waiter !== start);
+        this.process();
+        reject(abortSignal?.reason as Error);
+      };
+      const start = () => {
+        abortSignal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(start);
+      this.process();
+    });
+  }
+
+  release() {
+    this.active--;
+    this.process();
+  }
+
+  recordTokens(count: number) {
+    this.tokens.push({ time: this.now(), count });
+  }
+
+  // Infinity when waiting for a request to finish
+  private getWaitMillis(): number {
+    const { requestsPerMinute, tokensPerMinute, maxConcurrent } = this.limits;
+    if (maxConcurrent !== undefined && this.active >= maxConcurrent) {
+      return Infinity;
+    }
+
+    const now = this.now();
+    this.requests = this.requests.filter((time) => time + WINDOW_MILLIS > now);
+    this.tokens = this.tokens.filter(({ time }) => time + WINDOW_MILLIS > now);
+
+    let wait = 0;
+    if (requestsPerMinute !== undefined && this.requests.length >= requestsPerMinute) {
+      // Wait for enough of the earlier requests to leave the window
+      const time = this.requests[this.requests.length - requestsPerMinute];
+      wait = Math.max(wait, time + WINDOW_MILLIS - now);
+    }
+    if (tokensPerMinute !== undefined) {
+      let used = this.tokens.reduce((sum, { count }) => sum + count, 0);
+      for (const { time, count } of this.tokens) {
+        if (used < tokensPerMinute) break;
+        used -= count;
+        wait = Math.max(wait, time + WINDOW_MILLIS - now);
+      }
+    }
+    return wait;
+  }
+
+  private process() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    while (this.queue.length > 0) {
+      const wait = this.getWaitMillis();
+      if (wait === Infinity) {
+        return; // Processed again on release
+      }
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.process();
+        }, wait);
+        return;
+      }
+      this.active++;
+      this.requests.push(this.now());
+      this.queue.shift()?.();
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { describe, expect, test } from 'vitest';
+import { scoreAssertionResults } from './scoreAssertions';
+
+describe('scoreAssertionResults', () => {
+  test('requires every assertion to pass without a threshold', function () {
+    const res = scoreAssertionResults([{ pass: true }, { pass: false, score: 0.5 }], [1, 1]);
+    expect(res).toEqual({ pass: false, score: 0.75 });
+  });
+  test('uses the weighted average with a threshold', function () {
+    const results = [{ pass: true }, { pass: false, score: 0.25 }];
+    expect(scoreAssertionResults(results, [3, 1], 0.8)).toEqual({ pass: true, score: 0.8125 });
+    expect(scoreAssertionResults(results, [1, 1], 0.8)).toEqual({ pass: false, score: 0.625 });
+  });
+  test('passes with no assertions', function () {
+    expect(scoreAssertionResults([], [], 0.5)).toEqual({ pass: true, score: undefined });
+  });
+});
@@ -0,0 +1,35 @@
+import type { AssertionResult } from '$lib/types';
+
+export interface CellScore {
+  pass: boolean;
+  score?: number; // Weighted average of the assertion scores, if there are any
+}
+
+export function getAssertionScore(result: AssertionResult): number {
+  return result.score ?? (result.pass ? 1 : 0);
+}
+
+/**
+ * Combines assertion results into a cell-level result. Without a threshold,
+ * every assertion must pass. With one, the weighted average score must meet
+ * the threshold.
+ */
+export function scoreAssertionResults(
+  results: AssertionResult[],
+  weights: number[],
+  threshold?: number,
+): CellScore {
+  let totalWeight = 0;
+  let weightedSum = 0;
+  results.forEach((result, index) => {
+    const weight = weights[index] ?? 1;
+    totalWeight += weight;
+    weightedSum += weight * getAssertionScore(result);
+  });
+  const score = totalWeight > 0 ? weightedSum / totalWeight : undefined;
+
+  if (threshold === undefined) {
+    return { pass: results.every((r) => r.pass), score };
+  }
+  return { pass: (score ?? 1) >= threshold, score };
+}
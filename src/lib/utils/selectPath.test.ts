@@ -0,0 +1,14 @@
+import { describe, expect, test } from 'vitest';
+import { selectPath } from './selectPath';
+
+describe('selectPath', () => {
+  test('supports dot and bracket notation', () => {
+    const value = { items: [{ name: 'a' }, { name: 'b' }] };
+    expect(selectPath(value, '$.items[1].name')).toBe('b');
+    expect(selectPath(value, 'items.0.name')).toBe('a');
+    expect(selectPath(value, '$')).toBe(value);
+  });
+  test('throws for missing paths', () => {
+    expect(() => selectPath({ a: 1 }, '$.b')).toThrow('Path not found in JSON: $.b');
+  });
+});
@@ -0,0 +1,15 @@
+/** Selects a value with a path such as `$.items[0].name` or `items.0.name`. */
+export function selectPath(value: unknown, path: string): unknown {
+  const segments = path
+    .replace(/^\$\.?/, '')
+    .split(/\.|\[|\]/)
+    .filter((s) => s.length > 0);
+  let current = value;
+  for (const segment of segments) {
+    if (typeof current !== 'object' || current === null || !(segment in current)) {
+      throw new Error(`Path not found in JSON: ${path}`);
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
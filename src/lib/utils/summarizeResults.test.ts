@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { summarizeResults, type ResultLike } from '$lib/utils/summarizeResults';
+import { summarizeResults, summarizeRows, type ResultLike } from '$lib/utils/summarizeResults';
 
 describe('summarizeResults', () => {
   test('basic', () => {
@@ -21,6 +21,23 @@ describe('summarizeResults', () => {
     });
   });
 
+  test('streaming metrics leave out cached results', () => {
+    const results = [
+      { pass: true, latencyMillis: 100, timeToFirstTokenMillis: 20, outputTokensPerSecond: 50 },
+      { pass: true, latencyMillis: 300, outputTokensPerSecond: 30 },
+      { pass: true, latencyMillis: 5, timeToFirstTokenMillis: 1, cached: true },
+    ];
+
+    const stats = summarizeResults(results, (r) => r.pass);
+
+    expect(stats).toMatchObject({
+      avgLatencyMillis: 200,
+      avgTimeToFirstTokenMillis: 20,
+      avgOutputTokensPerSecond: 40,
+      cached: 1,
+    });
+  });
+
   test('assertions', () => {
     const results: (ResultLike & { pass: boolean })[] = [
       {
@@ -106,4 +123,54 @@ describe('summarizeResults', () => {
       ],
     });
   });
+
+  test('scores', () => {
+    const results: (ResultLike & { pass: boolean })[] = [
+      {
+        pass: true,
+        score: 0.9,
+        assertionResults: [{ id: 'a', pass: true, score: 0.8 }],
+      },
+      {
+        pass: false,
+        score: 0.5,
+        assertionResults: [{ id: 'a', pass: false }],
+      },
+    ];
+
+    const stats = summarizeResults(results, (r) => r.pass);
+
+    expect(stats).toEqual({
+      total: 2,
+      passed: 1,
+      failed: 1,
+      avgScore: 0.7,
+      assertions: [{ description: 'a', avgPass: 0.5, avgScore: 0.4, outputStats: {} }],
+    });
+  });
+});
+
+describe('summarizeRows', () => {
+  test('adds pairwise ratings', () => {
+    const rows: (ResultLike & { pass: boolean })[][] = [
+      [
+        {
+          pass: true,
+          assertionResults: [{ pass: true, comparisons: [{ opponent: 1, score: 1 }] }],
+        },
+        {
+          pass: false,
+          assertionResults: [{ pass: false, comparisons: [{ opponent: 0, score: 0 }] }],
+        },
+        { pass: true },
+      ],
+    ];
+
+    const stats = summarizeRows(rows, 3, (r) => r.pass);
+
+    expect(stats.map((s) => s.passed)).toEqual([1, 0, 1]);
+    expect(stats[0].rating).toBeGreaterThan(1000);
+    expect(stats[1].rating).toBeLessThan(1000);
+    expect(stats[2].rating).toBeUndefined();
+  });
 });
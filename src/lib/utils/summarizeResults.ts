@@ -1,5 +1,7 @@
 import type { AssertionStats, SummaryStats, TestResult } from '$lib/types';
 import { cast } from './asserts';
+import { getAssertionScore } from './scoreAssertions';
+import { bradleyTerryRatings, type PairwiseComparison } from './pairwiseRatings';
 
 export type ResultLike = Omit<TestResult, 'pass' | 'assertionResults'> & {
   assertionResults?: TestResult['assertionResults'];
@@ -21,13 +23,41 @@ export function summarizeResults<T extends ResultLike>(
     assertions,
   };
 
-  const hasLatency = results.some((r) => r.latencyMillis !== undefined);
+  const scores = results.map((r) => r.score).filter((s) => s !== undefined);
+  if (scores.length > 0) {
+    stats.avgScore = scores.reduce((a, b) => a + b, 0) / scores.length;
+  }
+
+  // Cached results have the timings from an earlier run, so they're left out
+  const cached = results.filter((r) => r.cached).length;
+  if (cached > 0) {
+    stats.cached = cached;
+  }
+  const uncached = results.filter((r) => !r.cached);
+
+  const hasLatency = uncached.some((r) => r.latencyMillis !== undefined);
   if (hasLatency) {
-    const latencies = results
+    const latencies = uncached
       .filter((r) => r.latencyMillis !== undefined)
       .map((r) => r.latencyMillis ?? 0);
     const sum = latencies.reduce((a, b) => a + b, 0);
-    stats.avgLatencyMillis = sum / total;
+    stats.avgLatencyMillis = sum / uncached.length;
+  }
+
+  // Only averaged over the responses that report them
+  const timesToFirstToken = uncached
+    .map((r) => r.timeToFirstTokenMillis)
+    .filter((t) => t !== undefined);
+  if (timesToFirstToken.length > 0) {
+    stats.avgTimeToFirstTokenMillis =
+      timesToFirstToken.reduce((a, b) => a + b, 0) / timesToFirstToken.length;
+  }
+  const tokensPerSecond = uncached
+    .map((r) => r.outputTokensPerSecond)
+    .filter((t) => t !== undefined);
+  if (tokensPerSecond.length > 0) {
+    stats.avgOutputTokensPerSecond =
+      tokensPerSecond.reduce((a, b) => a + b, 0) / tokensPerSecond.length;
   }
 
   const hasCost = results.some((r) => r.tokenUsage?.costDollars !== undefined);
@@ -42,12 +72,62 @@ export function summarizeResults<T extends ResultLike>(
   return stats;
 }
 
+/**
+ * Summarizes each env (column) of a run. Unlike summarizeResults, this can
+ * include stats that compare envs, such as pairwise ratings.
+ */
+export function summarizeRows<T extends ResultLike>(
+  rows: T[][],
+  envCount: number,
+  passFn: (r: T) => boolean | null,
+): SummaryStats[] {
+  const summaries = Array.from({ length: envCount }, (_, index) =>
+    summarizeResults(
+      rows.map((row) => row[index]),
+      passFn,
+    ),
+  );
+
+  const comparisons = getPairwiseComparisons(rows);
+  if (comparisons.length > 0) {
+    const ratings = bradleyTerryRatings(envCount, comparisons);
+    ratings.forEach((rating, index) => {
+      if (rating !== undefined) {
+        summaries[index].rating = rating;
+      }
+    });
+  }
+  return summaries;
+}
+
+/** The comparisons recorded by pairwise assertions, where `a` and `b` are env indexes. */
+export function getPairwiseComparisons(
+  rows: Pick<ResultLike, 'assertionResults'>[][],
+): PairwiseComparison[] {
+  const comparisons: PairwiseComparison[] = [];
+  for (const row of rows) {
+    row.forEach((result, a) => {
+      for (const assertion of result.assertionResults ?? []) {
+        for (const { opponent, score } of assertion.comparisons ?? []) {
+          // Each comparison is recorded by both envs, only count it once
+          if (a < opponent) {
+            comparisons.push({ a, b: opponent, score });
+          }
+        }
+      }
+    });
+  }
+  return comparisons;
+}
+
 function summarizeAssertionResults(results: ResultLike[]): AssertionStats[] {
   const grouped = new Map<
     string,
     {
       passCount: number;
       totalCount: number;
+      scoreSum: number;
+      hasScore: boolean;
       outputStats: Map<string, { values: (boolean | number)[]; type: string }>;
     }
   >();
@@ -59,6 +139,8 @@ function summarizeAssertionResults(results: ResultLike[]): AssertionStats[] {
           grouped.set(assertion.id, {
             passCount: 0,
             totalCount: 0,
+            scoreSum: 0,
+            hasScore: false,
             outputStats: new Map(),
           });
         }
@@ -68,6 +150,8 @@ function summarizeAssertionResults(results: ResultLike[]): AssertionStats[] {
         if (assertion.pass) {
           group.passCount += 1;
         }
+        group.scoreSum += getAssertionScore(assertion);
+        group.hasScore ||= assertion.score !== undefined;
 
         Object.entries(assertion.outputs ?? {}).forEach(([key, value]) => {
           const type = typeof value;
@@ -95,7 +179,7 @@ function summarizeAssertionResults(results: ResultLike[]): AssertionStats[] {
   });
 
   const assertionStats: AssertionStats[] = Array.from(grouped.entries()).map(
-    ([id, { passCount, totalCount, outputStats }]) => {
+    ([id, { passCount, totalCount, scoreSum, hasScore, outputStats }]) => {
       const summarizedOutputs: Record<
         string,
         { type: 'boolean'; avgTrue: number } | { type: 'number'; avgNumber: number }
@@ -111,11 +195,16 @@ function summarizeAssertionResults(results: ResultLike[]): AssertionStats[] {
         }
       });
 
-      return {
+      const stats: AssertionStats = {
         description: id,
         avgPass: passCount / totalCount,
         outputStats: summarizedOutputs,
       };
+      // Only show scores for assertions that report them
+      if (hasScore) {
+        stats.avgScore = scoreSum / totalCount;
+      }
+      return stats;
     },
   );
 
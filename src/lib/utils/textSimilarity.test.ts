@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'vitest';
+import {
+  bleu,
+  levenshteinDistance,
+  levenshteinSimilarity,
+  rougeL,
+  tokenF1,
+} from './textSimilarity';
+
+describe('textSimilarity', () => {
+  test('levenshtein', function () {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(levenshteinSimilarity('abcd', 'abce')).toBe(0.75);
+    expect(levenshteinSimilarity('', '')).toBe(1);
+  });
+  test('rougeL', function () {
+    expect(rougeL('The cat sat on the mat', 'the cat sat on the mat')).toBe(1);
+    // LCS is "the cat the mat" (4 tokens) of 6 and 5 tokens
+    expect(rougeL('the cat sat on the mat', 'the cat lay the mat')).toBeCloseTo(8 / 11);
+    expect(rougeL('hello', 'goodbye')).toBe(0);
+  });
+  test('bleu', function () {
+    expect(bleu('the quick brown fox jumps', 'the quick brown fox jumps')).toBeCloseTo(1);
+    expect(bleu('completely unrelated words', 'the quick brown fox')).toBe(0);
+    const partial = bleu('the quick brown dog jumps', 'the quick brown fox jumps');
+    expect(partial).toBeGreaterThan(0);
+    expect(partial).toBeLessThan(1);
+  });
+  test('tokenF1', function () {
+    expect(tokenF1('Paris, France', 'paris')).toBeCloseTo(2 / 3);
+    expect(tokenF1('', '')).toBe(1);
+  });
+});
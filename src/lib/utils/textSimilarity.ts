@@ -0,0 +1,108 @@
+/**
+ * Reference-based text metrics. All scores are between 0 and 1, where 1 is
+ * an exact match.
+ */
+
+export function tokenize(text: string): string[] {
+  return text.toLocaleLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function levenshteinDistance(a: string, b: string): number {
+  const source = Array.from(a);
+  const target = Array.from(b);
+  let previous = Array.from({ length: target.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[target.length];
+}
+
+export function levenshteinSimilarity(
+  a: string,
+  b: string,
+  distance = levenshteinDistance(a, b),
+): number {
+  const maxLength = Math.max(Array.from(a).length, Array.from(b).length);
+  if (maxLength === 0) return 1;
+  return 1 - distance / maxLength;
+}
+
+/** ROUGE-L F-measure, based on the longest common token subsequence. */
+export function rougeL(candidate: string, reference: string): number {
+  const c = tokenize(candidate);
+  const r = tokenize(reference);
+  if (c.length === 0 || r.length === 0) return c.length === r.length ? 1 : 0;
+
+  let previous = new Array<number>(r.length + 1).fill(0);
+  for (const token of c) {
+    const current = [0];
+    for (let j = 1; j <= r.length; j++) {
+      current[j] = token === r[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  const lcs = previous[r.length];
+  return f1(lcs / c.length, lcs / r.length);
+}
+
+/**
+ * Sentence-level BLEU with up to 4-grams, uniform weights, a brevity penalty
+ * and add-one smoothing for higher-order n-grams (so short outputs don't
+ * always score 0).
+ */
+export function bleu(candidate: string, reference: string, maxOrder = 4): number {
+  const c = tokenize(candidate);
+  const r = tokenize(reference);
+  if (c.length === 0 || r.length === 0) return c.length === r.length ? 1 : 0;
+
+  let logPrecision = 0;
+  const order = Math.min(maxOrder, c.length);
+  for (let n = 1; n <= order; n++) {
+    const candidateCounts = countNgrams(c, n);
+    const referenceCounts = countNgrams(r, n);
+    let matches = 0;
+    let total = 0;
+    for (const [ngram, count] of candidateCounts) {
+      matches += Math.min(count, referenceCounts.get(ngram) ?? 0);
+      total += count;
+    }
+    if (n === 1 && matches === 0) return 0;
+    const precision = n === 1 ? matches / total : (matches + 1) / (total + 1);
+    logPrecision += Math.log(precision) / order;
+  }
+  const brevityPenalty = c.length >= r.length ? 1 : Math.exp(1 - r.length / c.length);
+  return brevityPenalty * Math.exp(logPrecision);
+}
+
+/** Token-level F1, as used for extractive QA. */
+export function tokenF1(candidate: string, reference: string): number {
+  const c = tokenize(candidate);
+  const r = tokenize(reference);
+  if (c.length === 0 || r.length === 0) return c.length === r.length ? 1 : 0;
+
+  const referenceCounts = countNgrams(r, 1);
+  let overlap = 0;
+  for (const [token, count] of countNgrams(c, 1)) {
+    overlap += Math.min(count, referenceCounts.get(token) ?? 0);
+  }
+  return f1(overlap / c.length, overlap / r.length);
+}
+
+function countNgrams(tokens: string[], n: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + n <= tokens.length; i++) {
+    const ngram = tokens.slice(i, i + n).join(' ');
+    counts.set(ngram, (counts.get(ngram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function f1(precision: number, recall: number): number {
+  if (precision + recall === 0) return 0;
+  return (2 * precision * recall) / (precision + recall);
+}